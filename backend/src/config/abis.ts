@@ -0,0 +1,123 @@
+// ABIs for the basket contracts (see basket-contracts/src), only the parts the backend reads
+
+export const MintingConsumerABI = [
+  {
+    type: 'function',
+    name: 'getStablecoin',
+    inputs: [],
+    outputs: [{ name: '', type: 'address', internalType: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'onReport',
+    inputs: [
+      { name: 'metadata', type: 'bytes', internalType: 'bytes' },
+      { name: 'report', type: 'bytes', internalType: 'bytes' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  { type: 'error', name: 'MintFailed', inputs: [] },
+  { type: 'error', name: 'RedeemFailed', inputs: [] },
+  { type: 'error', name: 'InvalidInstructionType', inputs: [] },
+  // Raised by the PolicyEngine (runPolicy modifier) and bubbled up through onReport
+  {
+    type: 'error',
+    name: 'PolicyRunRejected',
+    inputs: [
+      { name: 'selector', type: 'bytes4', internalType: 'bytes4' },
+      { name: 'policy', type: 'address', internalType: 'address' },
+      { name: 'rejectReason', type: 'string', internalType: 'string' },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'MintInstructionReceived',
+    inputs: [
+      { name: 'recipient', type: 'address', indexed: true, internalType: 'address' },
+      { name: 'amount', type: 'uint256', indexed: false, internalType: 'uint256' },
+      { name: 'bankReference', type: 'bytes32', indexed: true, internalType: 'bytes32' },
+      { name: 'timestamp', type: 'uint256', indexed: false, internalType: 'uint256' },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'RedeemInstructionReceived',
+    inputs: [
+      { name: 'account', type: 'address', indexed: true, internalType: 'address' },
+      { name: 'amount', type: 'uint256', indexed: false, internalType: 'uint256' },
+      { name: 'bankReference', type: 'bytes32', indexed: true, internalType: 'bytes32' },
+      { name: 'timestamp', type: 'uint256', indexed: false, internalType: 'uint256' },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'MintExecuted',
+    inputs: [
+      { name: 'recipient', type: 'address', indexed: true, internalType: 'address' },
+      { name: 'amount', type: 'uint256', indexed: false, internalType: 'uint256' },
+      { name: 'bankReference', type: 'bytes32', indexed: true, internalType: 'bytes32' },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'RedeemExecuted',
+    inputs: [
+      { name: 'account', type: 'address', indexed: true, internalType: 'address' },
+      { name: 'amount', type: 'uint256', indexed: false, internalType: 'uint256' },
+      { name: 'bankReference', type: 'bytes32', indexed: true, internalType: 'bytes32' },
+    ],
+    anonymous: false,
+  },
+] as const;
+
+export const StablecoinABI = [
+  {
+    type: 'function',
+    name: 'owner',
+    inputs: [],
+    outputs: [{ name: '', type: 'address', internalType: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'decimals',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint8', internalType: 'uint8' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'totalSupply',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256', internalType: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'isMinter',
+    inputs: [{ name: '', type: 'address', internalType: 'address' }],
+    outputs: [{ name: '', type: 'bool', internalType: 'bool' }],
+    stateMutability: 'view',
+  },
+] as const;
+
+export const BasketFactoryABI = [
+  {
+    type: 'event',
+    name: 'BasketCreated',
+    inputs: [
+      { name: 'creator', type: 'address', indexed: true, internalType: 'address' },
+      { name: 'admin', type: 'address', indexed: true, internalType: 'address' },
+      { name: 'stablecoin', type: 'address', indexed: true, internalType: 'address' },
+      { name: 'mintingConsumer', type: 'address', indexed: false, internalType: 'address' },
+      { name: 'name', type: 'string', indexed: false, internalType: 'string' },
+      { name: 'symbol', type: 'string', indexed: false, internalType: 'string' },
+    ],
+    anonymous: false,
+  },
+] as const;
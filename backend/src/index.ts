@@ -3,8 +3,19 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import { join } from 'path';
 import { mintRouter } from './routes/mint.js';
+import { redeemRouter } from './routes/redeem.js';
 import { publishBasketRouter } from './routes/publish-basket.js';
-import { apiKeyAuth } from './middleware/auth.js';
+import { basketsRouter } from './routes/baskets.js';
+import { jobsRouter } from './routes/jobs.js';
+import { attestationsRouter } from './routes/attestations.js';
+import { authRouter } from './routes/auth.js';
+import { apiKeyAuth, requireScope } from './middleware/auth.js';
+import { walletAuth } from './middleware/wallet-auth.js';
+import { idempotency } from './middleware/idempotency.js';
+import { rateLimit } from './middleware/rate-limit.js';
+import { startBasketIndexer } from './services/basket-indexer.js';
+import { startHealthMonitor } from './services/basket-health.js';
+import { recoverUnfinishedRequests } from './services/cre-workflow.js';
 
 // Load .env from project root
 dotenv.config({ path: join(process.cwd(), '../.env') });
@@ -12,13 +23,28 @@ dotenv.config({ path: join(process.cwd(), '../.env') });
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Behind a proxy (e.g. the frontend or a load balancer) so rate limits see the caller's IP:
+// true, a hop count, or trusted addresses/subnets
+const trustProxy = process.env.TRUST_PROXY;
+if (trustProxy) {
+  app.set('trust proxy', trustProxy === 'true' ? true : /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+}
+
 // Middleware
 app.use(cors());
 app.use(express.json());
 
-// Routes (protected with API key)
-app.use('/mint', apiKeyAuth, mintRouter);
-app.use('/publish-basket', apiKeyAuth, publishBasketRouter);
+// Routes (protected with API key, plus a wallet session on writes unless the key is
+// wallet-exempt; /baskets checks scopes per method)
+app.use('/mint', apiKeyAuth, requireScope('mint'), rateLimit, walletAuth, idempotency, mintRouter);
+app.use('/redeem', apiKeyAuth, requireScope('mint'), rateLimit, walletAuth, idempotency, redeemRouter);
+app.use('/publish-basket', apiKeyAuth, requireScope('publish'), walletAuth, publishBasketRouter);
+app.use('/baskets', apiKeyAuth, walletAuth, basketsRouter);
+app.use('/jobs', apiKeyAuth, requireScope('mint'), walletAuth, jobsRouter);
+// Nonces for wallet sign-in (SIWE), issued to the frontend
+app.use('/auth', apiKeyAuth, authRouter);
+// Signed reserve attestations are public (read by the workflow); recording reserves needs an admin key
+app.use('/attestations', attestationsRouter);
 
 // Health check
 app.get('/health', (_req, res) => {
@@ -28,6 +54,22 @@ app.get('/health', (_req, res) => {
 // Start server
 app.listen(PORT, () => {
   console.log(`Backend server running on http://localhost:${PORT}`);
-  console.log(`CRE Mode: Local simulation with --broadcast`);
-  console.log(`Auth: API key required (x-api-key header)`);
+  console.log(`CRE Mode: Local simulation with --broadcast (queued, max ${process.env.CRE_MAX_CONCURRENCY || 1} concurrent)`);
+  console.log(`Auth: API key required (x-api-key header); per-client keys from data/api-keys.json${process.env.API_KEY ? ', legacy API_KEY accepted' : ''}`);
+  console.log(`Wallet auth: SIWE session (x-wallet-message/x-wallet-signature) required on writes except for wallet-exempt keys${process.env.API_KEY_REQUIRE_WALLET === 'false' ? ' (including the legacy API_KEY)' : ''}`);
+  console.log(`Rate limits: ${process.env.RATE_LIMIT_PER_KEY || 30}/key, ${process.env.RATE_LIMIT_PER_IP || 60}/IP per ${process.env.RATE_LIMIT_WINDOW_SECONDS || 60}s on POST /mint and /redeem`);
+  console.log(`Idempotency: Idempotency-Key header honoured on POST /mint and /redeem`);
+
+  // Jobs do not survive a restart; settle the ledger entries they left behind
+  recoverUnfinishedRequests().catch(error => {
+    console.error('[CRE Workflow] Failed to recover unfinished requests:', error);
+  });
+
+  if (process.env.INDEXER_ENABLED === 'true') {
+    startBasketIndexer();
+  }
+
+  if (process.env.HEALTH_MONITOR_ENABLED === 'true') {
+    startHealthMonitor();
+  }
 });
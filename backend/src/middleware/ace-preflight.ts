@@ -0,0 +1,53 @@
+import type { Request, Response } from 'express';
+import { isPreflightEnabled, preflightReport } from '../services/ace-preflight.js';
+import type { WorkflowInstruction } from '../services/cre-workflow.js';
+
+/**
+ * Sends 422 ACE_POLICY_REJECTED and returns false when the consumer's policies
+ * would reject the report. Other outcomes only log: the workflow still runs and
+ * the on-chain check remains authoritative.
+ */
+export async function checkPolicyPreflight(
+  req: Request,
+  res: Response,
+  request: { instruction: WorkflowInstruction; mintingConsumerAddress: string; account: string; amount: string; units?: bigint },
+): Promise<boolean> {
+  const label = `[ACE Preflight] ${request.instruction} ${request.amount} for ${request.account}`;
+
+  if (!isPreflightEnabled()) {
+    return true;
+  }
+
+  // Without the token's decimals there is no report to simulate
+  if (request.units === undefined) {
+    console.warn(`${label}: skipped (token decimals unknown)`);
+    return true;
+  }
+
+  const result = await preflightReport({ ...request, units: request.units });
+
+  switch (result.outcome) {
+    case 'allowed':
+      console.log(`${label}: allowed`);
+      return true;
+
+    case 'rejected':
+      console.warn(`${label}: rejected by policy ${result.policy} (${result.reason}) client=${req.apiClient?.clientId}`);
+      res.status(422).json({
+        success: false,
+        error: 'ACE_POLICY_REJECTED',
+        message: `Rejected by ACE policy ${result.policy}: ${result.reason || 'no reason given'}`,
+        policy: result.policy,
+        reason: result.reason,
+      });
+      return false;
+
+    case 'reverted':
+      console.warn(`${label}: dry run reverted with ${result.error}; running workflow anyway`);
+      return true;
+
+    case 'unavailable':
+      console.warn(`${label}: skipped (${result.reason})`);
+      return true;
+  }
+}
@@ -1,14 +1,38 @@
 import type { Request, Response, NextFunction } from 'express';
+import { authenticateKey, canUseBasket, hasScope, type ApiClient, type ApiScope } from '../services/api-keys.js';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by apiKeyAuth
+      apiClient?: ApiClient;
+    }
+  }
+}
 
 /**
  * API Key authentication middleware
  * Expects header: x-api-key: <key>
+ * Keys are issued per client with `npm run keys` (data/api-keys.json); the
+ * shared API_KEY from .env is still accepted as the `legacy` client with all scopes.
  */
 export function apiKeyAuth(req: Request, res: Response, next: NextFunction): void {
-  const apiKey = process.env.API_KEY;
+  const providedKey = req.headers['x-api-key'];
+
+  if (!providedKey || typeof providedKey !== 'string') {
+    res.status(401).json({
+      success: false,
+      error: 'MISSING_API_KEY',
+      message: 'Missing x-api-key header',
+    });
+    return;
+  }
 
-  if (!apiKey) {
-    console.error('[Auth] API_KEY not configured in environment');
+  let client: ReturnType<typeof authenticateKey>;
+  try {
+    client = authenticateKey(providedKey);
+  } catch (error) {
+    console.error('[Auth] Failed to read API key store:', error);
     res.status(500).json({
       success: false,
       error: 'AUTH_NOT_CONFIGURED',
@@ -17,18 +41,16 @@ export function apiKeyAuth(req: Request, res: Response, next: NextFunction): voi
     return;
   }
 
-  const providedKey = req.headers['x-api-key'];
-
-  if (!providedKey) {
-    res.status(401).json({
+  if (client === 'revoked') {
+    res.status(403).json({
       success: false,
-      error: 'MISSING_API_KEY',
-      message: 'Missing x-api-key header',
+      error: 'API_KEY_REVOKED',
+      message: 'API key has been revoked',
     });
     return;
   }
 
-  if (providedKey !== apiKey) {
+  if (!client) {
     res.status(403).json({
       success: false,
       error: 'INVALID_API_KEY',
@@ -37,5 +59,40 @@ export function apiKeyAuth(req: Request, res: Response, next: NextFunction): voi
     return;
   }
 
+  req.apiClient = client;
+  console.log(`[Auth] client=${client.clientId} key=${client.keyId} ${req.method} ${req.originalUrl}`);
   next();
 }
+
+/**
+ * Requires the authenticated client to hold `scope` (admin implies every scope)
+ */
+export function requireScope(scope: ApiScope) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.apiClient || !hasScope(req.apiClient, scope)) {
+      res.status(403).json({
+        success: false,
+        error: 'INSUFFICIENT_SCOPE',
+        message: `API key lacks the "${scope}" scope`,
+      });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Sends 403 BASKET_NOT_ALLOWED and returns false if the client's allow-list excludes `symbol`
+ */
+export function checkBasketAccess(req: Request, res: Response, symbol: string): boolean {
+  if (req.apiClient && canUseBasket(req.apiClient, symbol)) {
+    return true;
+  }
+
+  res.status(403).json({
+    success: false,
+    error: 'BASKET_NOT_ALLOWED',
+    message: `API key is not allowed to use basket "${symbol}"`,
+  });
+  return false;
+}
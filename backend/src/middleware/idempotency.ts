@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import type { Request, Response, NextFunction } from 'express';
+
+interface IdempotencyRecord {
+  key: string;
+  scope: string;
+  requestHash: string;
+  state: 'in_progress' | 'completed';
+  statusCode?: number;
+  body?: unknown;
+  createdAt: string;
+}
+
+const DEFAULT_TTL_HOURS = 24;
+// A request normally answers within seconds; an older in_progress record was left by a crash
+const IN_PROGRESS_TTL_MS = 2 * 60 * 1000;
+// Conflicts (paused basket) and quota or rate limits can clear, so a retry with the same key runs again
+const RETRYABLE_STATUSES = [409, 429];
+
+function getStorePath(): string {
+  return process.env.IDEMPOTENCY_STORE_PATH || join(process.cwd(), 'data/idempotency-keys.json');
+}
+
+function getRetentionMs(): number {
+  const hours = Number(process.env.IDEMPOTENCY_TTL_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+}
+
+function loadRecords(): Record<string, IdempotencyRecord> {
+  const storePath = getStorePath();
+  if (!existsSync(storePath)) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(readFileSync(storePath, 'utf-8'));
+  } catch (error) {
+    console.error('[Idempotency] Failed to load key store:', error);
+    return {};
+  }
+}
+
+function saveRecords(records: Record<string, IdempotencyRecord>): void {
+  const storePath = getStorePath();
+  const tempPath = `${storePath}.tmp`;
+  mkdirSync(dirname(storePath), { recursive: true });
+  writeFileSync(tempPath, JSON.stringify(records, null, 2) + '\n', 'utf-8');
+  renameSync(tempPath, storePath);
+}
+
+function pruneExpired(records: Record<string, IdempotencyRecord>): void {
+  const now = Date.now();
+  for (const [id, record] of Object.entries(records)) {
+    const ttl = record.state === 'in_progress' ? IN_PROGRESS_TTL_MS : getRetentionMs();
+    if (Date.parse(record.createdAt) < now - ttl) {
+      delete records[id];
+    }
+  }
+}
+
+function hashRequest(req: Request): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${req.method} ${req.baseUrl}${req.path}\n${JSON.stringify(req.body ?? null)}`)
+    .digest('hex');
+}
+
+/**
+ * Idempotency-Key middleware for POST requests
+ * The first response for a key is stored and replayed for duplicates within the
+ * retention window (IDEMPOTENCY_TTL_HOURS, default 24), except server errors and
+ * 409/429 responses, which the client may retry. Requests without the header pass
+ * through unchanged.
+ */
+export function idempotency(req: Request, res: Response, next: NextFunction): void {
+  const key = req.header('idempotency-key');
+
+  if (req.method !== 'POST' || key === undefined) {
+    next();
+    return;
+  }
+
+  if (!/^[\x21-\x7e]{1,255}$/.test(key)) {
+    res.status(400).json({
+      success: false,
+      error: 'INVALID_IDEMPOTENCY_KEY',
+      message: 'Idempotency-Key must be 1-255 printable ASCII characters',
+    });
+    return;
+  }
+
+  // Keys are per client: two integrations may pick the same key without colliding
+  const scope = `${req.apiClient?.clientId ?? 'anonymous'}:${req.baseUrl}`;
+  const recordId = `${scope}:${key}`;
+  const requestHash = hashRequest(req);
+
+  const records = loadRecords();
+  pruneExpired(records);
+  const existing = records[recordId];
+
+  if (existing) {
+    if (existing.requestHash !== requestHash) {
+      res.status(422).json({
+        success: false,
+        error: 'IDEMPOTENCY_KEY_REUSED',
+        message: 'Idempotency-Key was already used with a different request body',
+      });
+      return;
+    }
+
+    if (existing.state === 'in_progress') {
+      res.status(409).json({
+        success: false,
+        error: 'IDEMPOTENCY_KEY_IN_PROGRESS',
+        message: 'A request with this Idempotency-Key is still being processed',
+      });
+      return;
+    }
+
+    console.log(`[Idempotency] Replaying stored response for ${recordId}`);
+    res.setHeader('Idempotent-Replayed', 'true');
+    res.status(existing.statusCode ?? 200).json(existing.body);
+    return;
+  }
+
+  records[recordId] = {
+    key,
+    scope,
+    requestHash,
+    state: 'in_progress',
+    createdAt: new Date().toISOString(),
+  };
+  saveRecords(records);
+
+  // Capture the first response so duplicates get the same answer
+  const originalJson = res.json.bind(res);
+  res.json = (body: unknown) => {
+    const latest = loadRecords();
+
+    if (res.statusCode >= 500 || RETRYABLE_STATUSES.includes(res.statusCode)) {
+      // Not stored so the client can retry with the same key
+      delete latest[recordId];
+    } else {
+      latest[recordId] = {
+        ...records[recordId],
+        state: 'completed',
+        statusCode: res.statusCode,
+        body,
+      };
+    }
+
+    saveRecords(latest);
+    return originalJson(body);
+  };
+
+  next();
+}
@@ -0,0 +1,72 @@
+import type { Request, Response, NextFunction } from 'express';
+
+const DEFAULT_WINDOW_SECONDS = 60;
+const DEFAULT_MAX_PER_KEY = 30;
+const DEFAULT_MAX_PER_IP = 60;
+
+// Request timestamps per bucket within the current window (in memory, per process)
+const buckets = new Map<string, number[]>();
+
+function readLimit(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return fallback;
+  }
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function recentHits(bucket: string, windowMs: number, now: number): number[] {
+  const hits = (buckets.get(bucket) ?? []).filter(at => at > now - windowMs);
+  if (hits.length > 0) {
+    buckets.set(bucket, hits);
+  } else {
+    buckets.delete(bucket);
+  }
+  return hits;
+}
+
+/**
+ * Sliding-window rate limit for POSTs, per API key and per client IP, mounted after apiKeyAuth
+ * RATE_LIMIT_WINDOW_SECONDS (default 60), RATE_LIMIT_PER_KEY (default 30), RATE_LIMIT_PER_IP (default 60);
+ * a limit of 0 disables it.
+ * Set TRUST_PROXY when running behind a proxy so req.ip is the caller's address.
+ */
+export function rateLimit(req: Request, res: Response, next: NextFunction): void {
+  if (req.method !== 'POST') {
+    next();
+    return;
+  }
+
+  const windowMs = readLimit('RATE_LIMIT_WINDOW_SECONDS', DEFAULT_WINDOW_SECONDS) * 1000;
+  const limits: Array<[bucket: string, max: number, label: string]> = [
+    [`key:${req.apiClient?.keyId}`, readLimit('RATE_LIMIT_PER_KEY', DEFAULT_MAX_PER_KEY), 'API key'],
+    [`ip:${req.ip}`, readLimit('RATE_LIMIT_PER_IP', DEFAULT_MAX_PER_IP), 'IP address'],
+  ];
+
+  const now = Date.now();
+  const active = limits.filter(([, max]) => max > 0 && windowMs > 0);
+
+  for (const [bucket, max, label] of active) {
+    const hits = recentHits(bucket, windowMs, now);
+    if (hits.length >= max) {
+      const retryAfterSeconds = Math.max(1, Math.ceil((hits[0] + windowMs - now) / 1000));
+      console.warn(`[Rate Limit] ${bucket} over ${max} requests per ${windowMs / 1000}s on ${req.originalUrl}`);
+      res.setHeader('Retry-After', String(retryAfterSeconds));
+      res.status(429).json({
+        success: false,
+        error: 'RATE_LIMITED',
+        message: `Too many requests for this ${label}; retry in ${retryAfterSeconds}s`,
+        retryAfterSeconds,
+      });
+      return;
+    }
+  }
+
+  // Only accepted requests count towards the limits
+  for (const [bucket] of active) {
+    buckets.set(bucket, [...(buckets.get(bucket) ?? []), now]);
+  }
+
+  next();
+}
@@ -0,0 +1,141 @@
+import type { Request, Response, NextFunction } from 'express';
+import { isAddressEqual, type Address } from 'viem';
+import {
+  isBasketAdmin,
+  isMintOperator,
+  verifyWalletSession,
+  WalletAuthError,
+  type WalletSession,
+} from '../services/wallet-auth.js';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by walletAuth when the request carries a valid SIWE session
+      wallet?: WalletSession;
+    }
+  }
+}
+
+function chainUnavailable(res: Response, error: any): void {
+  console.error('[Wallet Auth] Chain call failed:', error.shortMessage || error.message);
+  res.status(502).json({
+    success: false,
+    error: 'CHAIN_UNAVAILABLE',
+    message: 'Could not verify wallet permissions on-chain',
+  });
+}
+
+/**
+ * Wallet (SIWE) authentication middleware, mounted after apiKeyAuth
+ * Expects headers: x-wallet-message: <base64 EIP-4361 message>, x-wallet-signature: <0x...>
+ * Writes (mint, redeem, publish, basket admin) must send a wallet session unless the key was
+ * issued wallet-exempt (or is the legacy API_KEY with API_KEY_REQUIRE_WALLET=false), so the
+ * operator and basket-admin checks always apply; reads pass through without one.
+ */
+export async function walletAuth(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const encodedMessage = req.header('x-wallet-message');
+  const signature = req.header('x-wallet-signature');
+
+  if (!encodedMessage || !signature) {
+    if (!req.apiClient?.walletExempt && req.method !== 'GET') {
+      res.status(401).json({
+        success: false,
+        error: 'WALLET_AUTH_REQUIRED',
+        message: 'Sign in with your wallet to use this endpoint',
+      });
+      return;
+    }
+    next();
+    return;
+  }
+
+  try {
+    const message = Buffer.from(encodedMessage, 'base64').toString('utf-8');
+    req.wallet = await verifyWalletSession(message, signature);
+  } catch (error: any) {
+    if (error instanceof WalletAuthError) {
+      res.status(401).json({ success: false, error: error.code, message: error.message });
+      return;
+    }
+    chainUnavailable(res, error);
+    return;
+  }
+
+  console.log(`[Auth] client=${req.apiClient?.clientId} wallet=${req.wallet.address} ${req.method} ${req.originalUrl}`);
+  next();
+}
+
+/**
+ * For wallet sessions, sends 403 NOT_BASKET_ADMIN and returns false unless the
+ * wallet owns the basket's stablecoin. Wallet-exempt keys send no wallet and are not checked.
+ */
+export async function checkBasketAdmin(req: Request, res: Response, stablecoinAddress: string): Promise<boolean> {
+  if (!req.wallet) {
+    return true;
+  }
+
+  try {
+    if (await isBasketAdmin(req.wallet.address, stablecoinAddress)) {
+      return true;
+    }
+  } catch (error) {
+    chainUnavailable(res, error);
+    return false;
+  }
+
+  res.status(403).json({
+    success: false,
+    error: 'NOT_BASKET_ADMIN',
+    message: `Wallet ${req.wallet.address} is not the on-chain admin of stablecoin ${stablecoinAddress}`,
+  });
+  return false;
+}
+
+/**
+ * For wallet sessions, sends 403 OPERATOR_NOT_ALLOWED and returns false unless the
+ * wallet is an allow-listed operator or the basket admin.
+ */
+export async function checkMintOperator(
+  req: Request,
+  res: Response,
+  stablecoinAddress: string,
+): Promise<boolean> {
+  if (!req.wallet) {
+    return true;
+  }
+
+  try {
+    if (await isMintOperator(req.wallet.address, stablecoinAddress)) {
+      return true;
+    }
+  } catch (error) {
+    chainUnavailable(res, error);
+    return false;
+  }
+
+  res.status(403).json({
+    success: false,
+    error: 'OPERATOR_NOT_ALLOWED',
+    message: `Wallet ${req.wallet.address} is not an allow-listed operator`,
+  });
+  return false;
+}
+
+/**
+ * Sends 403 NOT_TOKEN_HOLDER and returns false unless the signed-in wallet is `account`.
+ * The consumer burns with burnFrom, which checks no allowance, so only the holder may
+ * redeem; operators, basket admins and wallet-exempt keys cannot.
+ */
+export function checkRedeemHolder(req: Request, res: Response, account: Address): boolean {
+  if (req.wallet && isAddressEqual(req.wallet.address, account)) {
+    return true;
+  }
+
+  res.status(403).json({
+    success: false,
+    error: 'NOT_TOKEN_HOLDER',
+    message: `Only ${account} can redeem its tokens; sign in with that wallet`,
+  });
+  return false;
+}
@@ -0,0 +1,279 @@
+import express, { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { getBasketStore, type BasketRecord } from '../storage/index.js';
+import { apiKeyAuth, checkBasketAccess, requireScope } from '../middleware/auth.js';
+import { walletAuth } from '../middleware/wallet-auth.js';
+import {
+  AttestationError,
+  attestationSubject,
+  getAttester,
+  getReserveRecords,
+  parseStatementCsv,
+  recordReserves,
+  signAttestation,
+  type ReserveRecord,
+} from '../services/reserve-attester.js';
+
+const router = Router();
+
+// Statements are small CSV exports; anything larger is probably the wrong file
+const MAX_STATEMENT_BYTES = '1mb';
+
+// Reserve figures are entered by treasury operators with an admin key
+const adminOnly = [apiKeyAuth, requireScope('admin'), walletAuth];
+
+const assetQuerySchema = z.object({
+  asset: z.string().min(1).optional(),
+});
+
+const reserveInputSchema = z.object({
+  asset: z.string().min(1).optional(),
+  totalReserve: z.string().regex(/^\d+(\.\d+)?$/, 'Total reserve must be a plain decimal string'),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Currency must be an ISO 4217 code').optional(),
+  // When the balance was observed; defaults to now
+  lastUpdated: z.string().datetime({ offset: true }).optional(),
+});
+
+const statementQuerySchema = z.object({
+  asset: z.string().min(1).optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Currency must be an ISO 4217 code').optional(),
+  fileName: z.string().max(200).optional(),
+});
+
+function validationError(res: Response, error: z.ZodError): void {
+  res.status(400).json({
+    success: false,
+    error: 'VALIDATION_ERROR',
+    message: error.errors.map(e => `${e.path}: ${e.message}`).join(', '),
+  });
+}
+
+function attestationError(res: Response, error: AttestationError): void {
+  res.status(error.code === 'ATTESTER_NOT_CONFIGURED' ? 503 : 400).json({
+    success: false,
+    error: error.code,
+    message: error.message,
+  });
+}
+
+function internalError(res: Response, error: any, context: string): void {
+  console.error(`[${context} Error]`, error);
+  res.status(500).json({
+    success: false,
+    error: 'INTERNAL_ERROR',
+    message: error.message || 'An unexpected error occurred',
+  });
+}
+
+/**
+ * Looks up the basket (and constituent) and the currency its reserves are attested in.
+ * Sends 404 and returns undefined when either is unknown.
+ */
+function resolveTarget(
+  res: Response,
+  symbol: string,
+  asset?: string,
+): { basket: BasketRecord; currency: string } | undefined {
+  const basket = getBasketStore().get(symbol);
+  if (!basket) {
+    res.status(404).json({
+      success: false,
+      error: 'BASKET_NOT_FOUND',
+      message: `Basket "${symbol}" not found`,
+    });
+    return undefined;
+  }
+
+  if (!asset) {
+    return { basket, currency: basket.reserveSource?.currency ?? basket.currency ?? 'USD' };
+  }
+
+  const constituent = basket.constituents?.find(c => c.asset === asset);
+  if (!constituent) {
+    res.status(404).json({
+      success: false,
+      error: 'CONSTITUENT_NOT_FOUND',
+      message: `Basket "${symbol}" has no constituent "${asset}"`,
+    });
+    return undefined;
+  }
+  return { basket, currency: constituent.reserveSource.currency ?? basket.currency ?? 'USD' };
+}
+
+function currencyMismatch(res: Response, expected: string, given: string): void {
+  res.status(400).json({
+    success: false,
+    error: 'CURRENCY_MISMATCH',
+    message: `Reserves for this subject are attested in ${expected}, not ${given}`,
+  });
+}
+
+async function respondWithRecord(res: Response, record: ReserveRecord): Promise<void> {
+  res.status(201).json({ success: true, record, attestation: await signAttestation(record) });
+}
+
+/**
+ * Signed reserve attestation in the `{ totalReserve, lastUpdated }` shape the workflow
+ * reads; use as a basket's (or constituent's) reserveSource URL with `attester` set.
+ * Public, like a PoR feed: the figure is only trusted through the signature.
+ */
+router.get('/:symbol', async (req: Request, res: Response) => {
+  try {
+    const validationResult = assetQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      validationError(res, validationResult.error);
+      return;
+    }
+
+    const { symbol } = req.params;
+    const { asset } = validationResult.data;
+    if (!resolveTarget(res, symbol, asset)) {
+      return;
+    }
+
+    const subject = attestationSubject(symbol, asset);
+    const [latest] = getReserveRecords(subject, 1);
+    if (!latest) {
+      res.status(404).json({
+        success: false,
+        error: 'ATTESTATION_NOT_FOUND',
+        message: `No reserves have been recorded for ${subject}`,
+      });
+      return;
+    }
+
+    res.json({ success: true, ...(await signAttestation(latest)) });
+  } catch (error: any) {
+    if (error instanceof AttestationError) {
+      attestationError(res, error);
+      return;
+    }
+    internalError(res, error, 'Attestation');
+  }
+});
+
+router.get('/:symbol/history', ...adminOnly, (req: Request, res: Response) => {
+  const validationResult = assetQuerySchema.safeParse(req.query);
+  if (!validationResult.success) {
+    validationError(res, validationResult.error);
+    return;
+  }
+
+  const { symbol } = req.params;
+  if (!checkBasketAccess(req, res, symbol) || !resolveTarget(res, symbol, validationResult.data.asset)) {
+    return;
+  }
+
+  const records = getReserveRecords(attestationSubject(symbol, validationResult.data.asset));
+  res.json({ success: true, count: records.length, records });
+});
+
+// Admin API: records a reserve figure directly
+router.post('/:symbol', ...adminOnly, async (req: Request, res: Response) => {
+  try {
+    const validationResult = reserveInputSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      validationError(res, validationResult.error);
+      return;
+    }
+
+    const { symbol } = req.params;
+    const { asset, totalReserve, currency, lastUpdated } = validationResult.data;
+    if (!checkBasketAccess(req, res, symbol)) {
+      return;
+    }
+
+    const target = resolveTarget(res, symbol, asset);
+    if (!target) {
+      return;
+    }
+    if (currency && currency !== target.currency) {
+      currencyMismatch(res, target.currency, currency);
+      return;
+    }
+
+    // Fail before recording anything the service could not attest
+    getAttester();
+
+    const record = recordReserves({
+      subject: attestationSubject(symbol, asset),
+      totalReserve,
+      currency: target.currency,
+      lastUpdated: new Date(lastUpdated ?? Date.now()).toISOString(),
+      source: 'admin',
+      submittedBy: req.apiClient?.clientId,
+    });
+    await respondWithRecord(res, record);
+  } catch (error: any) {
+    if (error instanceof AttestationError) {
+      attestationError(res, error);
+      return;
+    }
+    internalError(res, error, 'Record Reserves');
+  }
+});
+
+/**
+ * Bank statement upload: the CSV body (Content-Type: text/csv) is totalled into one
+ * reserve figure (see parseStatementCsv). ?asset= targets a constituent.
+ */
+router.post(
+  '/:symbol/statement',
+  ...adminOnly,
+  express.text({ type: ['text/csv', 'text/plain'], limit: MAX_STATEMENT_BYTES }),
+  async (req: Request, res: Response) => {
+    try {
+      const validationResult = statementQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        validationError(res, validationResult.error);
+        return;
+      }
+
+      const { symbol } = req.params;
+      const { asset, currency, fileName } = validationResult.data;
+      if (!checkBasketAccess(req, res, symbol)) {
+        return;
+      }
+
+      if (typeof req.body !== 'string' || !req.body.trim()) {
+        res.status(400).json({
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: 'Send the statement as a text/csv request body',
+        });
+        return;
+      }
+
+      const target = resolveTarget(res, symbol, asset);
+      if (!target) {
+        return;
+      }
+      if (currency && currency !== target.currency) {
+        currencyMismatch(res, target.currency, currency);
+        return;
+      }
+
+      getAttester();
+
+      const statement = parseStatementCsv(req.body, target.currency);
+      const record = recordReserves({
+        subject: attestationSubject(symbol, asset),
+        totalReserve: statement.totalReserve,
+        currency: target.currency,
+        lastUpdated: statement.lastUpdated ?? new Date().toISOString(),
+        source: 'statement',
+        statement: { ...(fileName ? { fileName } : {}), rows: statement.rows },
+        submittedBy: req.apiClient?.clientId,
+      });
+      await respondWithRecord(res, record);
+    } catch (error: any) {
+      if (error instanceof AttestationError) {
+        attestationError(res, error);
+        return;
+      }
+      internalError(res, error, 'Upload Statement');
+    }
+  },
+);
+
+export { router as attestationsRouter };
@@ -0,0 +1,14 @@
+import { Router, type Request, type Response } from 'express';
+import { issueWalletNonce } from '../services/wallet-auth.js';
+
+const router = Router();
+
+/**
+ * Nonce for the SIWE message a wallet signs to sign in; the backend only accepts
+ * sessions whose nonce it issued, and each nonce signs in once
+ */
+router.post('/nonce', (_req: Request, res: Response) => {
+  res.json({ success: true, ...issueWalletNonce() });
+});
+
+export { router as authRouter };
@@ -0,0 +1,497 @@
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { BasketStoreError, getBasketStore, type BasketWriteOptions } from '../storage/index.js';
+import { BasketVerificationError, verifyBasket } from '../services/basket-verification.js';
+import { canUseBasket } from '../services/api-keys.js';
+import { checkBasketAccess, requireScope } from '../middleware/auth.js';
+import { checkBasketAdmin } from '../middleware/wallet-auth.js';
+import { getHealthSamples, getHealthThresholds } from '../services/basket-health.js';
+import { unpauseBasket } from '../services/basket-pause.js';
+
+const router = Router();
+
+const addressSchema = (label: string) => z.string().regex(/^0x[a-fA-F0-9]{40}$/, `Invalid ${label} address`);
+
+const currencySchema = z.string().regex(/^[A-Z]{3}$/, 'Currency must be an ISO 4217 code');
+
+// Publishers may only point at https endpoints: file:// sources (and their mockResponse,
+// which zod strips) are reserved for the workflow's own config.json
+const reserveSourceSchema = z.object({
+  url: z.string().regex(/^https:\/\/[^\s/]+/, 'Reserve source URL must be https://'),
+  jsonPath: z.string().regex(/^[\w-]+(\.[\w-]+)*$/, 'JSON path must be dot-separated keys').optional(),
+  timestampPath: z.string().regex(/^[\w-]+(\.[\w-]+)*$/, 'Timestamp path must be dot-separated keys').optional(),
+  // Reserves in another currency than the basket are converted with the workflow's FX rates
+  currency: currencySchema.optional(),
+  maxStalenessSeconds: z.number().int().positive().optional(),
+  attester: addressSchema('attester').optional(),
+});
+
+const constituentsSchema = z
+  .array(z.object({
+    asset: z.string().regex(/^[\w.-]{1,32}$/, 'Asset must be 1-32 letters, digits, dots, dashes or underscores'),
+    weightBps: z.number().int().min(1).max(10_000),
+    reserveSource: reserveSourceSchema,
+  }))
+  .min(1, 'At least one constituent is required')
+  .max(20, 'At most 20 constituents')
+  .refine(constituents => constituents.reduce((sum, c) => sum + c.weightBps, 0) === 10_000, 'Constituent weights must sum to 10000 bps')
+  .refine(constituents => new Set(constituents.map(c => c.asset)).size === constituents.length, 'Constituent assets must be unique');
+
+export const publishBasketSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  symbol: z.string().min(1, 'Symbol is required').max(10, 'Symbol must be 10 characters or less'),
+  stablecoinAddress: addressSchema('stablecoin'),
+  mintingConsumerAddress: addressSchema('minting consumer'),
+  // Denomination of the token; defaults to USD
+  currency: currencySchema.optional(),
+  reserveSource: reserveSourceSchema.optional(),
+  constituents: constituentsSchema.optional(),
+  // BasketFactory.createBasket transaction; when given, the pair must appear in its BasketCreated event
+  creationTxHash: z.string().regex(/^0x[a-fA-F0-9]{64}$/, 'Invalid transaction hash').optional(),
+});
+
+// Symbol, stablecoin and currency are the basket's identity and cannot be changed; archive and re-publish instead
+const updateBasketSchema = z
+  .object({
+    name: z.string().min(1, 'Name cannot be empty').optional(),
+    mintingConsumerAddress: addressSchema('minting consumer').optional(),
+    reserveSource: reserveSourceSchema.nullable().optional(),
+    constituents: constituentsSchema.nullable().optional(),
+    status: z.enum(['active', 'disabled']).optional(),
+  })
+  .strict()
+  .refine(update => Object.keys(update).length > 0, 'At least one field must be provided');
+
+const listQuerySchema = z.object({
+  status: z.enum(['active', 'disabled', 'paused', 'archived']).optional(),
+});
+
+const unpauseSchema = z.object({
+  // Why it is safe to mint again (e.g. reserves topped up); kept in the audit history
+  reason: z.string().trim().min(1, 'Reason is required').max(500),
+});
+
+const healthQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+});
+
+function validationError(res: Response, error: z.ZodError): void {
+  res.status(400).json({
+    success: false,
+    error: 'VALIDATION_ERROR',
+    message: error.errors.map(e => `${e.path}: ${e.message}`).join(', '),
+  });
+}
+
+function basketNotFound(res: Response, symbol: string): void {
+  res.status(404).json({
+    success: false,
+    error: 'BASKET_NOT_FOUND',
+    message: `Basket "${symbol}" not found`,
+  });
+}
+
+function verificationFailed(res: Response, error: BasketVerificationError): void {
+  res.status(error.code === 'CHAIN_UNAVAILABLE' ? 502 : 422).json({
+    success: false,
+    error: error.code,
+    message: error.message,
+  });
+}
+
+function storeError(res: Response, error: BasketStoreError): void {
+  res.status(error.code === 'BASKET_NOT_FOUND' ? 404 : error.code === 'REGISTRY_BUSY' ? 503 : 409).json({
+    success: false,
+    error: error.code,
+    message: error.message,
+  });
+}
+
+// History records the signed-in wallet alongside the API client
+function actorFor(req: Request): string | undefined {
+  const clientId = req.apiClient?.clientId;
+  return req.wallet ? `${clientId} (${req.wallet.address})` : clientId;
+}
+
+/**
+ * Optimistic concurrency: `If-Match: <version>` rejects the write if the basket changed since it was read
+ */
+function writeOptions(req: Request): BasketWriteOptions | undefined {
+  const actor = actorFor(req);
+  const ifMatch = req.header('if-match')?.replace(/"/g, '');
+  if (ifMatch === undefined) {
+    return { actor };
+  }
+  return /^\d+$/.test(ifMatch) ? { actor, expectedVersion: Number(ifMatch) } : undefined;
+}
+
+function invalidIfMatch(res: Response): void {
+  res.status(400).json({
+    success: false,
+    error: 'VALIDATION_ERROR',
+    message: 'If-Match must be a basket version number',
+  });
+}
+
+function internalError(res: Response, error: any, context: string): void {
+  console.error(`[${context} Error]`, error);
+  res.status(500).json({
+    success: false,
+    error: 'INTERNAL_ERROR',
+    message: error.message || 'An unexpected error occurred',
+  });
+}
+
+/**
+ * Creates a basket. Also mounted at POST /publish-basket for existing clients.
+ */
+export async function createBasket(req: Request, res: Response): Promise<void> {
+  try {
+    const validationResult = publishBasketSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      validationError(res, validationResult.error);
+      return;
+    }
+
+    const { name, symbol, stablecoinAddress, mintingConsumerAddress, currency, reserveSource, constituents, creationTxHash } = validationResult.data;
+
+    if (!checkBasketAccess(req, res, symbol)) {
+      return;
+    }
+
+    const basketStore = getBasketStore();
+
+    if (basketStore.get(symbol)) {
+      storeError(res, new BasketStoreError('BASKET_EXISTS', `Basket with symbol "${symbol}" already exists`));
+      return;
+    }
+
+    // Only the stablecoin's on-chain owner may publish it
+    if (!(await checkBasketAdmin(req, res, stablecoinAddress))) {
+      return;
+    }
+
+    await verifyBasket({ stablecoinAddress, mintingConsumerAddress, creationTxHash });
+
+    // create() re-checks the symbol under the store lock, so a concurrent publish cannot be overwritten
+    const basket = basketStore.create({
+      name,
+      symbol,
+      stablecoinAddress,
+      mintingConsumerAddress,
+      ...(currency ? { currency } : {}),
+      ...(reserveSource ? { reserveSource } : {}),
+      ...(constituents ? { constituents } : {}),
+      ...(creationTxHash ? { creationTxHash } : {}),
+    }, { actor: actorFor(req) });
+
+    console.log(`[Publish Basket] client=${req.apiClient?.clientId} Created basket: ${symbol} (${name})`);
+    console.log(`[Publish Basket] Stablecoin: ${stablecoinAddress}`);
+    console.log(`[Publish Basket] MintingConsumer: ${mintingConsumerAddress}`);
+    console.log(`[Publish Basket] Currency: ${currency ?? 'USD'}`);
+    if (reserveSource) {
+      console.log(`[Publish Basket] Reserve source: ${reserveSource.url} (${reserveSource.currency ?? currency ?? 'USD'})`);
+    }
+    if (constituents) {
+      console.log(`[Publish Basket] Constituents: ${constituents.map(c => `${c.asset} ${c.weightBps / 100}%`).join(', ')}`);
+    }
+
+    res.json({
+      success: true,
+      message: `Basket "${symbol}" published successfully`,
+      basket,
+    });
+  } catch (error: any) {
+    if (error instanceof BasketVerificationError) {
+      console.warn(`[Publish Basket] Verification failed: ${error.code} ${error.message}`);
+      verificationFailed(res, error);
+      return;
+    }
+    if (error instanceof BasketStoreError) {
+      storeError(res, error);
+      return;
+    }
+    internalError(res, error, 'Publish Basket');
+  }
+}
+
+router.get('/', (req: Request, res: Response) => {
+  const validationResult = listQuerySchema.safeParse(req.query);
+
+  if (!validationResult.success) {
+    validationError(res, validationResult.error);
+    return;
+  }
+
+  // Archived baskets are hidden unless asked for explicitly
+  const { status } = validationResult.data;
+  const baskets = getBasketStore()
+    .list()
+    .filter(b => canUseBasket(req.apiClient!, b.symbol))
+    .filter(b => (status ? b.status === status : b.status !== 'archived'))
+    .sort((a, b) => a.symbol.localeCompare(b.symbol));
+
+  res.json({ success: true, count: baskets.length, baskets });
+});
+
+router.get('/:symbol', (req: Request, res: Response) => {
+  if (!checkBasketAccess(req, res, req.params.symbol)) {
+    return;
+  }
+
+  const basket = getBasketStore().get(req.params.symbol);
+
+  if (!basket) {
+    basketNotFound(res, req.params.symbol);
+    return;
+  }
+
+  res.setHeader('ETag', `"${basket.version}"`);
+  res.json({ success: true, basket });
+});
+
+router.get('/:symbol/history', (req: Request, res: Response) => {
+  if (!checkBasketAccess(req, res, req.params.symbol)) {
+    return;
+  }
+
+  const basketStore = getBasketStore();
+
+  if (!basketStore.get(req.params.symbol)) {
+    basketNotFound(res, req.params.symbol);
+    return;
+  }
+
+  const history = basketStore.history(req.params.symbol);
+  res.json({ success: true, count: history.length, history });
+});
+
+// Latest reserve weights and collateral ratio from the health monitor, plus the time series (newest first)
+router.get('/:symbol/health', (req: Request, res: Response) => {
+  if (!checkBasketAccess(req, res, req.params.symbol)) {
+    return;
+  }
+
+  const validationResult = healthQuerySchema.safeParse(req.query);
+
+  if (!validationResult.success) {
+    validationError(res, validationResult.error);
+    return;
+  }
+
+  if (!getBasketStore().get(req.params.symbol)) {
+    basketNotFound(res, req.params.symbol);
+    return;
+  }
+
+  const samples = getHealthSamples(req.params.symbol, validationResult.data.limit);
+  res.json({
+    success: true,
+    symbol: req.params.symbol,
+    thresholds: getHealthThresholds(),
+    healthy: samples[0] ? samples[0].alerts.length === 0 : null,
+    latest: samples[0] ?? null,
+    count: samples.length,
+    samples,
+  });
+});
+
+router.post('/', requireScope('publish'), createBasket);
+
+router.patch('/:symbol', requireScope('publish'), async (req: Request, res: Response) => {
+  try {
+    const { symbol } = req.params;
+    if (!checkBasketAccess(req, res, symbol)) {
+      return;
+    }
+
+    const validationResult = updateBasketSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      validationError(res, validationResult.error);
+      return;
+    }
+
+    const options = writeOptions(req);
+    if (!options) {
+      invalidIfMatch(res);
+      return;
+    }
+
+    const basketStore = getBasketStore();
+    const current = basketStore.get(symbol);
+
+    if (!current) {
+      basketNotFound(res, symbol);
+      return;
+    }
+
+    if (!(await checkBasketAdmin(req, res, current.stablecoinAddress))) {
+      return;
+    }
+
+    const { reserveSource, constituents, ...update } = validationResult.data;
+
+    // A rotated consumer must be wired to the basket's stablecoin like a new one
+    if (update.mintingConsumerAddress && update.mintingConsumerAddress.toLowerCase() !== current.mintingConsumerAddress.toLowerCase()) {
+      await verifyBasket({
+        stablecoinAddress: current.stablecoinAddress,
+        mintingConsumerAddress: update.mintingConsumerAddress,
+      });
+    }
+
+    // Applied to the latest record under the store lock; other fields changed meanwhile are kept
+    const updated = basketStore.update(symbol, latest => {
+      // A paused basket only becomes active again through the audited unpause; checked here so
+      // a pause landing after our read is not overwritten
+      if (latest.status === 'paused' && update.status) {
+        throw new BasketStoreError('BASKET_PAUSED', `Basket "${symbol}" is paused; use POST /baskets/${symbol}/unpause`);
+      }
+
+      const next = { ...latest, ...update };
+      // null clears the basket's reserve source so the workflow falls back to its config
+      if (reserveSource === null) {
+        delete next.reserveSource;
+      } else if (reserveSource) {
+        next.reserveSource = reserveSource;
+      }
+      // null turns a multi-asset basket back into a single reserve source
+      if (constituents === null) {
+        delete next.constituents;
+      } else if (constituents) {
+        next.constituents = constituents;
+      }
+      return next;
+    }, 'update', options);
+
+    console.log(`[Baskets] client=${req.apiClient?.clientId} Updated ${symbol} to v${updated.version}: ${Object.keys(validationResult.data).join(', ')}`);
+    if (update.mintingConsumerAddress && update.mintingConsumerAddress !== current.mintingConsumerAddress) {
+      console.log(`[Baskets] ${symbol} MintingConsumer: ${current.mintingConsumerAddress} → ${update.mintingConsumerAddress}`);
+    }
+
+    res.setHeader('ETag', `"${updated.version}"`);
+    res.json({
+      success: true,
+      message: `Basket "${symbol}" updated`,
+      basket: updated,
+    });
+  } catch (error: any) {
+    if (error instanceof BasketVerificationError) {
+      console.warn(`[Baskets] Verification failed: ${error.code} ${error.message}`);
+      verificationFailed(res, error);
+      return;
+    }
+    if (error instanceof BasketStoreError) {
+      storeError(res, error);
+      return;
+    }
+    internalError(res, error, 'Update Basket');
+  }
+});
+
+// Lifts a pause the workflow put on the basket after reserves fell below supply
+router.post('/:symbol/unpause', requireScope('admin'), async (req: Request, res: Response) => {
+  try {
+    const { symbol } = req.params;
+    if (!checkBasketAccess(req, res, symbol)) {
+      return;
+    }
+
+    const validationResult = unpauseSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      validationError(res, validationResult.error);
+      return;
+    }
+
+    const options = writeOptions(req);
+    if (!options) {
+      invalidIfMatch(res);
+      return;
+    }
+
+    const current = getBasketStore().get(symbol);
+
+    if (!current) {
+      basketNotFound(res, symbol);
+      return;
+    }
+
+    if (!(await checkBasketAdmin(req, res, current.stablecoinAddress))) {
+      return;
+    }
+
+    if (current.status !== 'paused') {
+      res.status(409).json({
+        success: false,
+        error: 'BASKET_NOT_PAUSED',
+        message: `Basket "${symbol}" is ${current.status}, not paused`,
+      });
+      return;
+    }
+
+    const basket = unpauseBasket(symbol, validationResult.data.reason, options);
+    console.log(`[Baskets] client=${req.apiClient?.clientId} Unpaused ${symbol}: ${validationResult.data.reason}`);
+
+    res.setHeader('ETag', `"${basket.version}"`);
+    res.json({
+      success: true,
+      message: `Basket "${symbol}" unpaused`,
+      basket,
+    });
+  } catch (error: any) {
+    if (error instanceof BasketStoreError) {
+      storeError(res, error);
+      return;
+    }
+    internalError(res, error, 'Unpause Basket');
+  }
+});
+
+// Baskets are archived rather than deleted so ledger entries keep resolving
+router.delete('/:symbol', requireScope('admin'), async (req: Request, res: Response) => {
+  try {
+    const { symbol } = req.params;
+    if (!checkBasketAccess(req, res, symbol)) {
+      return;
+    }
+
+    const options = writeOptions(req);
+    if (!options) {
+      invalidIfMatch(res);
+      return;
+    }
+
+    const basketStore = getBasketStore();
+    let basket = basketStore.get(symbol);
+
+    if (!basket) {
+      basketNotFound(res, symbol);
+      return;
+    }
+
+    if (!(await checkBasketAdmin(req, res, basket.stablecoinAddress))) {
+      return;
+    }
+
+    if (basket.status !== 'archived') {
+      basket = basketStore.update(symbol, latest => ({ ...latest, status: 'archived' }), 'archive', options);
+      console.log(`[Baskets] client=${req.apiClient?.clientId} Archived ${symbol}`);
+    }
+
+    res.json({
+      success: true,
+      message: `Basket "${symbol}" archived`,
+      basket,
+    });
+  } catch (error: any) {
+    if (error instanceof BasketStoreError) {
+      storeError(res, error);
+      return;
+    }
+    internalError(res, error, 'Archive Basket');
+  }
+});
+
+export { router as basketsRouter };
@@ -0,0 +1,35 @@
+import { Router, type Request, type Response } from 'express';
+import { getJob, getQueuePosition } from '../services/job-queue.js';
+import { isAddressEqual, type Address } from 'viem';
+import { canSeeClientRecord } from '../services/api-keys.js';
+
+const router = Router();
+
+// Clients shared by many wallets (the frontend's key) see only the signed-in wallet's jobs
+function canSeeWalletJob(req: Request, jobWallet?: string): boolean {
+  return !req.wallet || (jobWallet !== undefined && isAddressEqual(req.wallet.address, jobWallet as Address));
+}
+
+router.get('/:jobId', (req: Request, res: Response) => {
+  const job = getJob(req.params.jobId);
+
+  // Other clients' and wallets' jobs are reported as missing rather than forbidden
+  if (!job || !canSeeClientRecord(req.apiClient!, job.clientId) || !canSeeWalletJob(req, job.wallet)) {
+    res.status(404).json({
+      success: false,
+      error: 'JOB_NOT_FOUND',
+      message: `Job "${req.params.jobId}" not found. Jobs expire once finished and do not survive a backend restart; query /mint/:transactionId for the durable record`,
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    job: {
+      ...job,
+      ...(job.status === 'queued' ? { queuePosition: getQueuePosition(job.id) } : {}),
+    },
+  });
+});
+
+export { router as jobsRouter };
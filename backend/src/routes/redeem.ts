@@ -0,0 +1,8 @@
+import { Router } from 'express';
+import { workflowRequestHandler } from './workflow-request.js';
+
+const router = Router();
+
+router.post('/', workflowRequestHandler('REDEEM'));
+
+export { router as redeemRouter };
@@ -0,0 +1,193 @@
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import type { Address } from 'viem';
+import { queueCREWorkflow, type MintRequest, type WorkflowInstruction } from '../services/cre-workflow.js';
+import { getBasketStore, type BasketStatus } from '../storage/index.js';
+import { checkBasketAccess } from '../middleware/auth.js';
+import { checkMintOperator, checkRedeemHolder } from '../middleware/wallet-auth.js';
+import { checkPolicyPreflight } from '../middleware/ace-preflight.js';
+import { AmountError, getTokenDecimals, parseTokenAmount } from '../services/token-amounts.js';
+import { checkMintQuota, type QuotaExceeded } from '../services/mint-quotas.js';
+
+const addressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address');
+
+const baseRequestSchema = z.object({
+  basket: z.string().min(1, 'Basket symbol is required'),
+  amount: z.string().regex(/^\d+(\.\d+)?$/, 'Amount must be a valid number string'),
+  // Optional; when given it must match the basket's denomination
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Currency must be an ISO 4217 code').optional(),
+});
+
+// Mints name the receiving `beneficiary`; redeems the `account` tokens are burned from
+const mintRequestSchema = baseRequestSchema.extend({ beneficiary: addressSchema });
+const redeemRequestSchema = baseRequestSchema.extend({ account: addressSchema });
+
+// Redeeming from a paused basket burns supply, which is what it needs
+const acceptedStatuses: Record<WorkflowInstruction, BasketStatus[]> = {
+  MINT: ['active'],
+  REDEEM: ['active', 'paused'],
+};
+
+function quotaExceeded(res: Response, basket: string, exceeded: QuotaExceeded): void {
+  const subject = exceeded.scope === 'beneficiary' ? 'this beneficiary' : `basket "${basket}"`;
+
+  if (exceeded.retryAfterSeconds !== undefined) {
+    res.setHeader('Retry-After', String(exceeded.retryAfterSeconds));
+  }
+  res.status(429).json({
+    success: false,
+    error: 'QUOTA_EXCEEDED',
+    message: `Mint quota for ${subject} is ${exceeded.limit} ${basket} per ${exceeded.windowHours}h; ${exceeded.remaining} remaining`,
+    quota: exceeded,
+    ...(exceeded.retryAfterSeconds !== undefined ? { retryAfterSeconds: exceeded.retryAfterSeconds } : {}),
+  });
+}
+
+/**
+ * POST handler shared by /mint and /redeem: validates the request against the basket
+ * (status, currency, token decimals), checks the signed-in wallet, dry-runs the consumer's
+ * policies and, for mints, the quotas, then queues the workflow run
+ */
+export function workflowRequestHandler(instruction: WorkflowInstruction) {
+  const isRedeem = instruction === 'REDEEM';
+  const label = isRedeem ? 'Redeem' : 'Mint';
+
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      // Validate request body
+      const validationResult = (isRedeem ? redeemRequestSchema : mintRequestSchema).safeParse(req.body);
+
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: validationResult.error.errors.map(e => `${e.path}: ${e.message}`).join(', '),
+        });
+        return;
+      }
+
+      const { basket, amount, currency } = validationResult.data;
+      const account = 'account' in validationResult.data ? validationResult.data.account : validationResult.data.beneficiary;
+
+      if (!checkBasketAccess(req, res, basket)) {
+        return;
+      }
+
+      // Lookup basket configuration
+      const basketStore = getBasketStore();
+      const basketConfig = basketStore.get(basket);
+
+      if (!basketConfig) {
+        const availableBaskets = basketStore.list().filter(b => acceptedStatuses[instruction].includes(b.status)).map(b => b.symbol);
+        res.status(400).json({
+          success: false,
+          error: 'BASKET_NOT_FOUND',
+          message: `Basket "${basket}" not found. Available baskets: ${availableBaskets.join(', ') || 'none'}`,
+        });
+        return;
+      }
+
+      if (basketConfig.status === 'paused' && !isRedeem) {
+        res.status(409).json({
+          success: false,
+          error: 'BASKET_PAUSED',
+          message: `Basket "${basket}" is paused: ${basketConfig.pause?.reason ?? 'reserves fell below supply'}`,
+          pause: basketConfig.pause,
+        });
+        return;
+      }
+
+      if (!acceptedStatuses[instruction].includes(basketConfig.status)) {
+        res.status(409).json({
+          success: false,
+          error: 'BASKET_DISABLED',
+          message: `Basket "${basket}" is ${basketConfig.status} and not accepting requests`,
+        });
+        return;
+      }
+
+      const basketCurrency = basketConfig.currency ?? 'USD';
+      if (currency && currency !== basketCurrency) {
+        res.status(400).json({
+          success: false,
+          error: 'CURRENCY_MISMATCH',
+          message: `Basket "${basket}" is denominated in ${basketCurrency}, not ${currency}`,
+        });
+        return;
+      }
+
+      // Checked against the stablecoin's own decimals; if they cannot be read the workflow still rejects
+      // amounts the token cannot represent
+      let units: bigint | undefined;
+      try {
+        units = parseTokenAmount(amount, await getTokenDecimals(basketConfig.stablecoinAddress));
+      } catch (error: any) {
+        if (error instanceof AmountError) {
+          res.status(400).json({ success: false, error: error.code, message: error.message });
+          return;
+        }
+        console.warn(`[${label} Request] Could not read decimals of ${basketConfig.stablecoinAddress}: ${error.shortMessage || error.message}`);
+      }
+
+      // Redeems burn from the account, so only its own wallet may ask; mints need an
+      // allow-listed operator or the basket admin
+      const allowed = isRedeem
+        ? checkRedeemHolder(req, res, account as Address)
+        : await checkMintOperator(req, res, basketConfig.stablecoinAddress);
+      if (!allowed) {
+        return;
+      }
+
+      // Dry-run the consumer's policies so a rejection is reported before a workflow run is spent
+      const preflight = { instruction, mintingConsumerAddress: basketConfig.mintingConsumerAddress, account, amount, units };
+      if (!(await checkPolicyPreflight(req, res, preflight))) {
+        return;
+      }
+
+      // No await between this check and queueing, so concurrent requests count each other's ledger entries
+      const exceeded = isRedeem ? undefined : checkMintQuota({ basket, beneficiary: account, amount });
+      if (exceeded) {
+        console.warn(`[Mint Request] ${exceeded.scope} quota exceeded for ${basket} ${account}: ${exceeded.used}/${exceeded.limit}`);
+        quotaExceeded(res, basket, exceeded);
+        return;
+      }
+
+      console.log(`[${label} Request] client=${req.apiClient?.clientId} wallet=${req.wallet?.address ?? 'none'} Basket: ${basket}, ${isRedeem ? 'Account' : 'Beneficiary'}: ${account}, Amount: ${amount}`);
+      console.log(`[${label} Request] Stablecoin: ${basketConfig.stablecoinAddress}`);
+      console.log(`[${label} Request] MintingConsumer: ${basketConfig.mintingConsumerAddress}`);
+
+      // Queue CRE workflow; a REDEEM instruction burns from the account
+      const request: MintRequest = {
+        instruction,
+        basket,
+        beneficiary: account,
+        amount,
+        stablecoinAddress: basketConfig.stablecoinAddress,
+        mintingConsumerAddress: basketConfig.mintingConsumerAddress,
+        currency: basketCurrency,
+        reserveSource: basketConfig.reserveSource,
+        constituents: basketConfig.constituents,
+        clientId: req.apiClient?.clientId,
+        wallet: req.wallet?.address,
+      };
+
+      const job = queueCREWorkflow(request);
+
+      res.status(202).json({
+        success: true,
+        jobId: job.id,
+        transactionId: job.transactionId,
+        status: job.status,
+        statusUrl: `/jobs/${job.id}`,
+        message: `${label} request accepted for ${amount} ${basket}`,
+      });
+    } catch (error: any) {
+      console.error(`[${label} Error]`, error);
+      res.status(500).json({
+        success: false,
+        error: 'INTERNAL_ERROR',
+        message: error.message || 'An unexpected error occurred',
+      });
+    }
+  };
+}
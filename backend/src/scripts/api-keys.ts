@@ -0,0 +1,111 @@
+/**
+ * Admin CLI for per-client API keys (data/api-keys.json, or API_KEYS_PATH)
+ *
+ *   npm run keys -- issue --client acme-bank --name "Acme Bank" --scopes mint --baskets DUSD,AUDT
+ *   npm run keys -- issue --client ops-server --scopes admin --wallet-exempt true
+ *   npm run keys -- list
+ *   npm run keys -- rotate <keyId>
+ *   npm run keys -- revoke <keyId>
+ *
+ * The raw key is printed once by issue/rotate; only its hash is stored.
+ */
+import dotenv from 'dotenv';
+import { join } from 'path';
+import { API_SCOPES, issueKey, listKeys, revokeKey, rotateKey, type ApiScope } from '../services/api-keys.js';
+
+dotenv.config({ path: join(process.cwd(), '../.env') });
+
+const USAGE = `Usage:
+  keys issue --client <id> [--name <name>] --scopes <mint,publish,admin> [--baskets <SYM1,SYM2>]
+  keys list
+  keys rotate <keyId>
+  keys revoke <keyId>`;
+
+function fail(message: string): never {
+  console.error(message);
+  console.error(USAGE);
+  process.exit(1);
+}
+
+function parseFlags(args: string[]): Record<string, string> {
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < args.length; i += 2) {
+    if (!args[i].startsWith('--') || args[i + 1] === undefined) {
+      fail(`Unexpected argument: ${args[i]}`);
+    }
+    flags[args[i].slice(2)] = args[i + 1];
+  }
+  return flags;
+}
+
+function splitList(value: string | undefined): string[] | undefined {
+  return value ? value.split(',').map(v => v.trim()).filter(Boolean) : undefined;
+}
+
+function printIssued(apiKey: string, keyId: string): void {
+  console.log(`Key ID:  ${keyId}`);
+  console.log(`API key: ${apiKey}`);
+  console.log('Store the API key now; it cannot be shown again.');
+}
+
+const [command, ...rest] = process.argv.slice(2);
+
+switch (command) {
+  case 'issue': {
+    const flags = parseFlags(rest);
+    if (!flags.client || !/^[a-z0-9][a-z0-9-]{1,62}$/.test(flags.client)) {
+      fail('--client must be a lowercase id (letters, digits, dashes)');
+    }
+
+    const scopes = splitList(flags.scopes) ?? [];
+    const unknown = scopes.filter(scope => !API_SCOPES.includes(scope as ApiScope));
+    if (scopes.length === 0 || unknown.length > 0) {
+      fail(`--scopes must list one or more of ${API_SCOPES.join(', ')}`);
+    }
+
+    const { record, apiKey } = issueKey({
+      clientId: flags.client,
+      clientName: flags.name,
+      scopes: scopes as ApiScope[],
+      baskets: splitList(flags.baskets),
+      walletExempt: flags['wallet-exempt'] === 'true',
+    });
+    printIssued(apiKey, record.keyId);
+    break;
+  }
+
+  case 'list': {
+    const keys = listKeys();
+    if (keys.length === 0) {
+      console.log('No API keys issued');
+      break;
+    }
+    for (const key of keys) {
+      const state = key.revokedAt ? `revoked ${key.revokedAt}` : 'active';
+      const baskets = key.baskets ? key.baskets.join(',') : 'all baskets';
+      const wallet = key.walletExempt ? '  wallet exempt' : '';
+      console.log(`${key.keyId}  ${key.clientId} (${key.clientName})  [${key.scopes.join(',')}]  ${baskets}${wallet}  ${state}`);
+    }
+    break;
+  }
+
+  case 'rotate': {
+    if (!rest[0]) fail('rotate needs a key ID');
+    const rotated = rotateKey(rest[0]);
+    if (!rotated) fail(`No active key ${rest[0]}`);
+    console.log(`Revoked ${rest[0]}`);
+    printIssued(rotated.apiKey, rotated.record.keyId);
+    break;
+  }
+
+  case 'revoke': {
+    if (!rest[0]) fail('revoke needs a key ID');
+    const revoked = revokeKey(rest[0]);
+    if (!revoked) fail(`No key ${rest[0]}`);
+    console.log(`Revoked ${revoked.keyId} (${revoked.clientId}) at ${revoked.revokedAt}`);
+    break;
+  }
+
+  default:
+    fail(command ? `Unknown command: ${command}` : 'Missing command');
+}
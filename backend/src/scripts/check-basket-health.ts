@@ -0,0 +1,37 @@
+/**
+ * Runs one basket health check (reserve weights, collateral ratio, alerts) and exits.
+ *
+ *   npm run health:baskets
+ *   npm run health:baskets -- --workflow-output ./monitor.log
+ *
+ * Checks from HEALTH_MONITOR_SOURCE (backend or workflow); --workflow-output instead records
+ * the BSKT_MONITOR reports in a saved PoR monitor run (e.g. a deployed workflow's logs).
+ * Samples are appended to BASKET_HEALTH_PATH (default data/basket-health.jsonl).
+ */
+import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { logHealthRun, recordMonitorReports, runConfiguredHealthMonitor } from '../services/basket-health.js';
+
+dotenv.config({ path: join(process.cwd(), '../.env') });
+
+async function main(): Promise<void> {
+  const outputIndex = process.argv.indexOf('--workflow-output');
+  const outputPath = outputIndex === -1 ? undefined : process.argv[outputIndex + 1];
+  if (outputIndex !== -1 && !outputPath) {
+    throw new Error('--workflow-output needs a file path');
+  }
+
+  const run = outputPath
+    ? await recordMonitorReports(readFileSync(outputPath, 'utf-8'))
+    : await runConfiguredHealthMonitor();
+  logHealthRun(run);
+  if (run.failed.length > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('[Health] Failed:', error.shortMessage || error.message);
+  process.exit(1);
+});
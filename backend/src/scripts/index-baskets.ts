@@ -0,0 +1,34 @@
+/**
+ * Runs the BasketCreated indexer until it catches up with the chain head, then exits.
+ *
+ *   npm run index:baskets
+ *
+ * Against a local anvil chain:
+ *   anvil
+ *   # deploy with basket-contracts/script/DeployBasketFactory.s.sol (--rpc-url http://127.0.0.1:8545)
+ *   # and create a basket with `cast send <factory> "createBasket(...)"`
+ *   RPC_URL=http://127.0.0.1:8545 BASKET_FACTORY_ADDRESS=<factory> INDEXER_START_BLOCK=0 INDEXER_CONFIRMATIONS=0 \
+ *     INDEXER_CHECKPOINT_PATH=data/indexer-checkpoint.anvil.json npm run index:baskets
+ *
+ * Use a separate checkpoint path (and ideally BASKETS_PATH) so local runs don't touch the Sepolia registry.
+ */
+import dotenv from 'dotenv';
+import { join } from 'path';
+import { logIndexerRun, runIndexerOnce } from '../services/basket-indexer.js';
+
+dotenv.config({ path: join(process.cwd(), '../.env') });
+
+async function main(): Promise<void> {
+  let run;
+  do {
+    run = await runIndexerOnce();
+    logIndexerRun(run);
+  } while (!run.caughtUp);
+
+  console.log('[Indexer] Caught up');
+}
+
+main().catch((error) => {
+  console.error('[Indexer] Failed:', error.shortMessage || error.message);
+  process.exit(1);
+});
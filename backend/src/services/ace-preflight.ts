@@ -0,0 +1,81 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  encodeAbiParameters,
+  parseAbiParameters,
+  type Address,
+  type Hex,
+} from 'viem';
+import { MintingConsumerABI } from '../config/abis.js';
+import { getPublicClient } from './chain.js';
+import type { WorkflowInstruction } from './cre-workflow.js';
+
+// Forwarder metadata is abi.encodePacked(workflowId, workflowName, workflowOwner, reportName);
+// policies only look at the report, so zeroes are enough for a dry run
+const EMPTY_METADATA: Hex = `0x${'00'.repeat(64)}`;
+
+export type PreflightResult =
+  | { outcome: 'allowed' }
+  | { outcome: 'rejected'; policy: Address; reason: string }
+  // Reverted for a reason other than a policy (e.g. MintFailed); the workflow run will report it
+  | { outcome: 'reverted'; error: string }
+  | { outcome: 'unavailable'; reason: string };
+
+/**
+ * Dry-runs the consumer's onReport with the report the workflow would deliver,
+ * so ACE policy rejections (e.g. a blacklisted beneficiary) surface before a
+ * workflow run and a forwarder transaction are spent. Calls are made from
+ * CRE_FORWARDER_ADDRESS when set, matching msg.sender on the real delivery.
+ */
+export async function preflightReport(request: {
+  instruction: WorkflowInstruction;
+  mintingConsumerAddress: string;
+  account: string;
+  // Amount in token units (see parseTokenAmount)
+  units: bigint;
+}): Promise<PreflightResult> {
+  const report = encodeAbiParameters(
+    parseAbiParameters('uint8 instructionType, address beneficiary, uint256 amount, bytes32 bankRef'),
+    [
+      request.instruction === 'REDEEM' ? 2 : 1,
+      request.account as Address,
+      request.units,
+      `0x${'00'.repeat(32)}`,
+    ],
+  );
+
+  const forwarder = process.env.CRE_FORWARDER_ADDRESS as Address | undefined;
+
+  try {
+    await getPublicClient().simulateContract({
+      address: request.mintingConsumerAddress as Address,
+      abi: MintingConsumerABI,
+      functionName: 'onReport',
+      args: [EMPTY_METADATA, report],
+      ...(forwarder ? { account: forwarder } : {}),
+    });
+    return { outcome: 'allowed' };
+  } catch (error: any) {
+    const revert = error instanceof BaseError
+      ? error.walk(e => e instanceof ContractFunctionRevertedError)
+      : undefined;
+
+    if (!(revert instanceof ContractFunctionRevertedError)) {
+      return { outcome: 'unavailable', reason: error.shortMessage || error.message };
+    }
+
+    if (revert.data?.errorName === 'PolicyRunRejected') {
+      const [, policy, reason] = revert.data.args as readonly [Hex, Address, string];
+      return { outcome: 'rejected', policy, reason };
+    }
+
+    return { outcome: 'reverted', error: revert.data?.errorName ?? revert.signature ?? revert.reason ?? 'unknown revert' };
+  }
+}
+
+/**
+ * Dry runs are on by default; ACE_PREFLIGHT=false skips them
+ */
+export function isPreflightEnabled(): boolean {
+  return process.env.ACE_PREFLIGHT !== 'false';
+}
@@ -0,0 +1,211 @@
+import crypto from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+
+export type ApiScope = 'mint' | 'publish' | 'admin';
+
+export const API_SCOPES: readonly ApiScope[] = ['mint', 'publish', 'admin'];
+
+/**
+ * A stored key. Only the SHA-256 of the secret is kept; the raw key is shown once when issued.
+ */
+export interface ApiKeyRecord {
+  keyId: string;
+  clientId: string;
+  clientName: string;
+  hash: string;
+  scopes: ApiScope[];
+  // Basket symbols the key may use; absent means all baskets
+  baskets?: string[];
+  createdAt: string;
+  revokedAt?: string;
+  // Set on the key issued by a rotation
+  rotatedFrom?: string;
+  // Writes with this key need no signed wallet session (SIWE); only for server-to-server clients
+  walletExempt?: boolean;
+}
+
+/**
+ * The caller behind an authenticated request
+ */
+export interface ApiClient {
+  clientId: string;
+  clientName: string;
+  keyId: string;
+  scopes: ApiScope[];
+  baskets?: string[];
+  walletExempt?: boolean;
+}
+
+interface KeyStore {
+  keys: Record<string, ApiKeyRecord>;
+}
+
+/**
+ * Matches the shared API_KEY from before per-client keys existed. The frontend
+ * proxies hold this key, so it is only exempt from wallet sessions with API_KEY_REQUIRE_WALLET=false.
+ */
+function getLegacyClient(): ApiClient {
+  return {
+    clientId: 'legacy',
+    clientName: 'Shared API_KEY',
+    keyId: 'legacy',
+    scopes: ['mint', 'publish', 'admin'],
+    walletExempt: process.env.API_KEY_REQUIRE_WALLET === 'false',
+  };
+}
+
+function getKeyStorePath(): string {
+  return process.env.API_KEYS_PATH || join(process.cwd(), 'data/api-keys.json');
+}
+
+function loadKeyStore(): KeyStore {
+  const storePath = getKeyStorePath();
+  if (!existsSync(storePath)) {
+    return { keys: {} };
+  }
+  return JSON.parse(readFileSync(storePath, 'utf-8'));
+}
+
+function saveKeyStore(store: KeyStore): void {
+  const storePath = getKeyStorePath();
+  const tempPath = `${storePath}.tmp`;
+  mkdirSync(dirname(storePath), { recursive: true });
+  writeFileSync(tempPath, JSON.stringify(store, null, 2) + '\n', { encoding: 'utf-8', mode: 0o600 });
+  renameSync(tempPath, storePath);
+}
+
+function hashSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Resolves a raw `bskt_<keyId>_<secret>` key (or the legacy API_KEY) to its client.
+ * Returns 'revoked' for a revoked key so callers can say so.
+ */
+export function authenticateKey(rawKey: string): ApiClient | 'revoked' | undefined {
+  const match = rawKey.match(/^bskt_([a-f0-9]{12})_([A-Za-z0-9_-]{32,})$/);
+
+  if (match) {
+    const record = loadKeyStore().keys[match[1]];
+    if (!record || !safeEqual(record.hash, hashSecret(match[2]))) {
+      return undefined;
+    }
+    if (record.revokedAt) {
+      return 'revoked';
+    }
+    return {
+      clientId: record.clientId,
+      clientName: record.clientName,
+      keyId: record.keyId,
+      scopes: record.scopes,
+      ...(record.baskets ? { baskets: record.baskets } : {}),
+      ...(record.walletExempt ? { walletExempt: true } : {}),
+    };
+  }
+
+  const legacyKey = process.env.API_KEY;
+  if (legacyKey && safeEqual(rawKey, legacyKey)) {
+    return getLegacyClient();
+  }
+
+  return undefined;
+}
+
+export function hasScope(client: ApiClient, scope: ApiScope): boolean {
+  return client.scopes.includes('admin') || client.scopes.includes(scope);
+}
+
+/**
+ * A key's basket allow-list applies to every scope, admin included
+ */
+export function canUseBasket(client: ApiClient, symbol: string): boolean {
+  return !client.baskets || client.baskets.includes(symbol);
+}
+
+/**
+ * Ledger entries and jobs are visible to the client that created them and to admins
+ */
+export function canSeeClientRecord(client: ApiClient, ownerClientId?: string): boolean {
+  return hasScope(client, 'admin') || ownerClientId === client.clientId;
+}
+
+export interface IssueKeyOptions {
+  clientId: string;
+  clientName?: string;
+  scopes: ApiScope[];
+  baskets?: string[];
+  walletExempt?: boolean;
+}
+
+/**
+ * Creates a key and returns the record plus the raw key (never stored)
+ */
+export function issueKey(options: IssueKeyOptions, rotatedFrom?: string): { record: ApiKeyRecord; apiKey: string } {
+  const store = loadKeyStore();
+  const keyId = crypto.randomBytes(6).toString('hex');
+  const secret = crypto.randomBytes(32).toString('base64url');
+
+  const record: ApiKeyRecord = {
+    keyId,
+    clientId: options.clientId,
+    clientName: options.clientName ?? options.clientId,
+    hash: hashSecret(secret),
+    scopes: options.scopes,
+    ...(options.baskets ? { baskets: options.baskets } : {}),
+    createdAt: new Date().toISOString(),
+    ...(rotatedFrom ? { rotatedFrom } : {}),
+    ...(options.walletExempt ? { walletExempt: true } : {}),
+  };
+
+  store.keys[keyId] = record;
+  saveKeyStore(store);
+  return { record, apiKey: `bskt_${keyId}_${secret}` };
+}
+
+export function revokeKey(keyId: string): ApiKeyRecord | undefined {
+  const store = loadKeyStore();
+  const record = store.keys[keyId];
+  if (!record) {
+    return undefined;
+  }
+
+  if (!record.revokedAt) {
+    record.revokedAt = new Date().toISOString();
+    saveKeyStore(store);
+  }
+  return record;
+}
+
+/**
+ * Issues a replacement with the same client, scopes, baskets and wallet exemption, then revokes the old key
+ */
+export function rotateKey(keyId: string): { record: ApiKeyRecord; apiKey: string } | undefined {
+  const current = loadKeyStore().keys[keyId];
+  if (!current || current.revokedAt) {
+    return undefined;
+  }
+
+  const issued = issueKey(
+    {
+      clientId: current.clientId,
+      clientName: current.clientName,
+      scopes: current.scopes,
+      baskets: current.baskets,
+      walletExempt: current.walletExempt,
+    },
+    keyId,
+  );
+  revokeKey(keyId);
+  return issued;
+}
+
+export function listKeys(): ApiKeyRecord[] {
+  return Object.values(loadKeyStore().keys).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
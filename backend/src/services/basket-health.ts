@@ -0,0 +1,454 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { formatUnits, type Address } from 'viem';
+import { StablecoinABI } from '../config/abis.js';
+import { getPublicClient } from './chain.js';
+import { getTokenDecimals } from './token-amounts.js';
+import { runCREMonitorSimulation } from './cre-workflow.js';
+import { pauseBasket, type PauseInstruction } from './basket-pause.js';
+import { parseMonitorReports, type MonitorReport } from './workflow-result.js';
+import {
+  fetchFxRate,
+  fetchReserveAttestation,
+  loadWorkflowReserveConfig,
+  type WorkflowReserveConfig,
+} from './reserve-attestations.js';
+import { getBasketStore, type BasketConstituent, type BasketRecord } from '../storage/index.js';
+
+const DEFAULT_MAX_DRIFT_BPS = 500;
+const DEFAULT_MIN_COLLATERAL_RATIO = 1;
+const DEFAULT_POLL_INTERVAL_MS = 300_000;
+const DEFAULT_WEBHOOK_TIMEOUT_MS = 10_000;
+
+// Resolved lazily so .env (loaded in index.ts after imports) is respected
+function getHealthPath(): string {
+  return process.env.BASKET_HEALTH_PATH || join(process.cwd(), 'data/basket-health.jsonl');
+}
+
+export interface ConstituentHealth {
+  asset: string;
+  targetBps: number;
+  actualBps: number;
+  // actual - target; positive means over-weight
+  driftBps: number;
+  // Attested reserves in the reserve's own currency
+  reserve: number;
+  reserveCurrency: string;
+  // The same reserves in the basket's currency
+  value: number;
+  lastUpdated: string;
+}
+
+export type HealthAlertKind = 'drift' | 'collateral';
+
+export interface HealthAlert {
+  kind: HealthAlertKind;
+  // Constituent for drift alerts
+  asset?: string;
+  value: number;
+  threshold: number;
+  message: string;
+}
+
+// Who took the sample: the backend's own checks, or the workflow's scheduled PoR monitor
+export type HealthSampleSource = 'backend' | 'workflow';
+
+export interface HealthThresholds {
+  maxDriftBps: number;
+  minCollateralRatio: number;
+}
+
+/**
+ * One point of a basket's health time series (data/basket-health.jsonl)
+ */
+export interface HealthSample {
+  symbol: string;
+  at: string;
+  // backend when unset (samples recorded before the workflow monitor existed)
+  source?: HealthSampleSource;
+  currency: string;
+  // Token amount as a decimal string
+  totalSupply: string;
+  totalReserves: number;
+  // totalReserves / totalSupply; null while nothing is minted
+  collateralRatio: number | null;
+  maxDriftBps: number;
+  constituents: ConstituentHealth[];
+  alerts: HealthAlert[];
+}
+
+export interface HealthMonitorRun {
+  checked: string[];
+  skipped: string[];
+  failed: string[];
+  // Baskets paused because reserves fell below supply
+  paused: string[];
+  alerts: number;
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * HEALTH_MAX_DRIFT_BPS (default 500) and HEALTH_MIN_COLLATERAL_RATIO (default 1)
+ */
+export function getHealthThresholds(): HealthThresholds {
+  return {
+    maxDriftBps: readNumberEnv('HEALTH_MAX_DRIFT_BPS', DEFAULT_MAX_DRIFT_BPS),
+    minCollateralRatio: readNumberEnv('HEALTH_MIN_COLLATERAL_RATIO', DEFAULT_MIN_COLLATERAL_RATIO),
+  };
+}
+
+function appendSample(sample: HealthSample): void {
+  const healthPath = getHealthPath();
+  mkdirSync(dirname(healthPath), { recursive: true });
+  appendFileSync(healthPath, JSON.stringify(sample) + '\n', 'utf-8');
+}
+
+/**
+ * A basket's samples, newest first
+ */
+export function getHealthSamples(symbol: string, limit = 100): HealthSample[] {
+  const healthPath = getHealthPath();
+  if (!existsSync(healthPath)) {
+    return [];
+  }
+
+  const samples: HealthSample[] = [];
+  for (const line of readFileSync(healthPath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const sample = JSON.parse(line) as HealthSample;
+      if (sample.symbol === symbol) samples.push(sample);
+    } catch {
+      console.error('[Health] Skipping malformed line:', line.slice(0, 120));
+    }
+  }
+
+  return samples.reverse().slice(0, limit);
+}
+
+// A constituent with the attestation subject it is signed for and whether its source
+// was published with the basket (and so must pass the workflow's trust rules)
+type CheckedConstituent = BasketConstituent & { subject: string; published: boolean };
+
+/**
+ * The basket's constituents, or its single reserve source (published, else the
+ * workflow's reserveSources entry) as one constituent at 100%
+ */
+function resolveConstituents(basket: BasketRecord, config: WorkflowReserveConfig): CheckedConstituent[] | undefined {
+  if (basket.constituents?.length) {
+    return basket.constituents.map(c => ({ ...c, subject: `${basket.symbol}:${c.asset}`, published: true }));
+  }
+
+  const single = (reserveSource: BasketConstituent['reserveSource'], published: boolean): CheckedConstituent[] => [
+    { asset: basket.symbol, weightBps: 10_000, reserveSource, subject: basket.symbol, published },
+  ];
+
+  if (basket.reserveSource) {
+    return single(basket.reserveSource, true);
+  }
+
+  const configured = config.reserveSources?.[basket.symbol];
+  return configured ? single(configured, false) : undefined;
+}
+
+function findAlerts(sample: Omit<HealthSample, 'alerts'>, thresholds: HealthThresholds): HealthAlert[] {
+  const alerts: HealthAlert[] = [];
+
+  for (const c of sample.constituents) {
+    if (Math.abs(c.driftBps) > thresholds.maxDriftBps) {
+      alerts.push({
+        kind: 'drift',
+        asset: c.asset,
+        value: c.driftBps,
+        threshold: thresholds.maxDriftBps,
+        message: `${sample.symbol} ${c.asset} is at ${c.actualBps / 100}% against a ${c.targetBps / 100}% target`,
+      });
+    }
+  }
+
+  if (sample.collateralRatio !== null && sample.collateralRatio < thresholds.minCollateralRatio) {
+    alerts.push({
+      kind: 'collateral',
+      value: sample.collateralRatio,
+      threshold: thresholds.minCollateralRatio,
+      message: `${sample.symbol} reserves cover ${(sample.collateralRatio * 100).toFixed(2)}% of supply`,
+    });
+  }
+
+  return alerts;
+}
+
+/**
+ * Pulls each constituent's attestation (trust, signature and staleness checked as in
+ * the workflow), converts it to the basket's currency and
+ * compares actual weights and total reserves with the targets and on-chain supply
+ */
+export async function checkBasketHealth(
+  basket: BasketRecord,
+  config = loadWorkflowReserveConfig(),
+): Promise<HealthSample | undefined> {
+  const constituents = resolveConstituents(basket, config);
+  if (!constituents) {
+    return undefined;
+  }
+
+  const currency = basket.currency ?? 'USD';
+  const [decimals, supplyUnits] = await Promise.all([
+    getTokenDecimals(basket.stablecoinAddress),
+    getPublicClient().readContract({
+      address: basket.stablecoinAddress as Address,
+      abi: StablecoinABI,
+      functionName: 'totalSupply',
+    }),
+  ]);
+  const totalSupply = formatUnits(supplyUnits, decimals);
+
+  const reserves = await Promise.all(constituents.map(async c => {
+    const reserveCurrency = c.reserveSource.currency ?? currency;
+    const attestation = await fetchReserveAttestation(config, c.reserveSource, {
+      subject: c.subject,
+      currency: reserveCurrency,
+      published: c.published,
+    });
+    const rate = await fetchFxRate(config, reserveCurrency, currency);
+    return { constituent: c, attestation, reserveCurrency, value: attestation.totalReserve * rate };
+  }));
+
+  const totalReserves = reserves.reduce((sum, r) => sum + r.value, 0);
+  const health: ConstituentHealth[] = reserves.map(({ constituent, attestation, reserveCurrency, value }) => {
+    const actualBps = totalReserves > 0 ? Math.round((value / totalReserves) * 10_000) : 0;
+    return {
+      asset: constituent.asset,
+      targetBps: constituent.weightBps,
+      actualBps,
+      driftBps: actualBps - constituent.weightBps,
+      reserve: attestation.totalReserve,
+      reserveCurrency,
+      value,
+      lastUpdated: attestation.lastUpdated,
+    };
+  });
+
+  const sample = {
+    symbol: basket.symbol,
+    at: new Date().toISOString(),
+    source: 'backend' as const,
+    currency,
+    totalSupply,
+    totalReserves,
+    collateralRatio: supplyUnits > 0n ? totalReserves / Number(totalSupply) : null,
+    maxDriftBps: Math.max(0, ...health.map(c => Math.abs(c.driftBps))),
+    constituents: health,
+  };
+
+  return { ...sample, alerts: findAlerts(sample, getHealthThresholds()) };
+}
+
+/**
+ * A pause instruction when reserves are below supply, as the workflow's monitor would send.
+ * Independent of HEALTH_MIN_COLLATERAL_RATIO, which only decides when to alert.
+ */
+function pauseIfUndercollateralized(sample: HealthSample): PauseInstruction | undefined {
+  if (sample.collateralRatio === null || sample.collateralRatio >= 1) {
+    return undefined;
+  }
+
+  const totalReserves = sample.totalReserves.toString();
+  return {
+    reason: `Reserves of ${totalReserves} ${sample.currency} are below the on-chain supply of ${sample.totalSupply} ${sample.currency}`,
+    totalSupply: sample.totalSupply,
+    totalReserves,
+  };
+}
+
+const alertKey = (alert: HealthAlert): string => `${alert.kind}:${alert.asset ?? ''}`;
+
+/**
+ * POSTs alerts that were not already active in the previous sample to HEALTH_WEBHOOK_URL
+ */
+async function notifyAlerts(sample: HealthSample, previous: HealthSample | undefined): Promise<number> {
+  const active = new Set(previous?.alerts.map(alertKey) ?? []);
+  const raised = sample.alerts.filter(alert => !active.has(alertKey(alert)));
+  if (raised.length === 0) {
+    return 0;
+  }
+
+  for (const alert of raised) {
+    console.warn(`[Health] ALERT ${alert.kind}: ${alert.message}`);
+  }
+
+  const webhookUrl = process.env.HEALTH_WEBHOOK_URL;
+  if (webhookUrl) {
+    try {
+      const response = await fetch(webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'basket.health.alert', symbol: sample.symbol, alerts: raised, sample }),
+        signal: AbortSignal.timeout(DEFAULT_WEBHOOK_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        console.error(`[Health] Webhook responded with HTTP ${response.status}`);
+      }
+    } catch (error: any) {
+      console.error('[Health] Webhook failed:', error.message);
+    }
+  }
+
+  return raised.length;
+}
+
+/**
+ * Appends a sample and alerts on thresholds it newly crosses; returns the number of alerts raised
+ */
+async function recordSample(sample: HealthSample): Promise<number> {
+  const [previous] = getHealthSamples(sample.symbol, 1);
+  appendSample(sample);
+  return notifyAlerts(sample, previous);
+}
+
+/**
+ * Checks every basket that is not archived, appends a sample per basket and pauses
+ * the ones whose reserves are below supply
+ */
+export async function runHealthMonitorOnce(): Promise<HealthMonitorRun> {
+  const run: HealthMonitorRun = { checked: [], skipped: [], failed: [], paused: [], alerts: 0 };
+  const config = loadWorkflowReserveConfig();
+  const baskets = getBasketStore().list().filter(b => b.status !== 'archived');
+
+  for (const basket of baskets) {
+    try {
+      const sample = await checkBasketHealth(basket, config);
+      if (!sample) {
+        run.skipped.push(basket.symbol);
+        continue;
+      }
+
+      run.alerts += await recordSample(sample);
+      run.checked.push(basket.symbol);
+
+      const pause = pauseIfUndercollateralized(sample);
+      if (pause && pauseBasket(basket.symbol, pause, { source: 'monitor', stablecoinAddress: basket.stablecoinAddress })) {
+        run.paused.push(basket.symbol);
+      }
+    } catch (error: any) {
+      console.error(`[Health] ${basket.symbol} check failed:`, error.shortMessage || error.message);
+      run.failed.push(basket.symbol);
+    }
+  }
+
+  return run;
+}
+
+/**
+ * Turns a workflow monitor report into a health sample, applying the backend's thresholds
+ */
+export function sampleFromMonitorReport(report: MonitorReport): HealthSample {
+  const constituents: ConstituentHealth[] = (report.constituents ?? []).map(c => ({
+    asset: c.asset,
+    targetBps: c.targetBps,
+    actualBps: c.actualBps,
+    driftBps: c.actualBps - c.targetBps,
+    reserve: c.reserve,
+    reserveCurrency: c.reserveCurrency,
+    value: Number(c.value),
+    lastUpdated: c.lastUpdated,
+  }));
+
+  const sample = {
+    symbol: report.symbol,
+    at: report.checkedAt,
+    source: 'workflow' as const,
+    currency: report.currency,
+    totalSupply: report.totalSupply ?? '0',
+    totalReserves: Number(report.totalReserves ?? 0),
+    collateralRatio: report.collateralRatio ?? null,
+    maxDriftBps: Math.max(0, ...constituents.map(c => Math.abs(c.driftBps))),
+    constituents,
+  };
+
+  return { ...sample, alerts: findAlerts(sample, getHealthThresholds()) };
+}
+
+/**
+ * Records the reports in a run of the workflow's PoR monitor (cron trigger output)
+ * and pauses the baskets it reports as under-collateralized
+ */
+export async function recordMonitorReports(output: string): Promise<HealthMonitorRun> {
+  const run: HealthMonitorRun = { checked: [], skipped: [], failed: [], paused: [], alerts: 0 };
+
+  for (const report of parseMonitorReports(output)) {
+    if (report.error) {
+      console.error(`[Health] ${report.symbol} workflow check failed (${report.error.code}):`, report.error.message);
+      run.failed.push(report.symbol);
+      continue;
+    }
+
+    run.alerts += await recordSample(sampleFromMonitorReport(report));
+    run.checked.push(report.symbol);
+
+    if (report.pause && pauseBasket(report.symbol, report.pause, { source: 'monitor', stablecoinAddress: report.stablecoinAddress })) {
+      run.paused.push(report.symbol);
+    }
+  }
+
+  return run;
+}
+
+/**
+ * Simulates the workflow's cron trigger once and records its reports
+ */
+export async function runWorkflowMonitorOnce(): Promise<HealthMonitorRun> {
+  const result = await runCREMonitorSimulation();
+  if (!result.success) {
+    throw new Error(`PoR monitor simulation failed: ${result.error}`);
+  }
+  return recordMonitorReports(result.output);
+}
+
+/**
+ * HEALTH_MONITOR_SOURCE: `backend` (default) checks reserves here; `workflow` runs the
+ * workflow's scheduled PoR monitor and records its reports
+ */
+function getMonitorSource(): HealthSampleSource {
+  return process.env.HEALTH_MONITOR_SOURCE === 'workflow' ? 'workflow' : 'backend';
+}
+
+/**
+ * One health run from the configured source
+ */
+export function runConfiguredHealthMonitor(): Promise<HealthMonitorRun> {
+  return getMonitorSource() === 'workflow' ? runWorkflowMonitorOnce() : runHealthMonitorOnce();
+}
+
+export function logHealthRun(run: HealthMonitorRun): void {
+  console.log(
+    `[Health] ${run.checked.length} checked, ${run.skipped.length} without reserve sources, ` +
+    `${run.failed.length} failed, ${run.alerts} new alert(s)` +
+    (run.paused.length > 0 ? `; paused ${run.paused.join(', ')}` : ''),
+  );
+}
+
+/**
+ * Checks basket health every HEALTH_MONITOR_INTERVAL_MS (default 5 minutes). Runs never overlap.
+ */
+export function startHealthMonitor(): void {
+  const interval = readNumberEnv('HEALTH_MONITOR_INTERVAL_MS', DEFAULT_POLL_INTERVAL_MS) || DEFAULT_POLL_INTERVAL_MS;
+
+  const tick = async () => {
+    try {
+      logHealthRun(await runConfiguredHealthMonitor());
+    } catch (error: any) {
+      console.error('[Health] Run failed:', error.message);
+    }
+    setTimeout(tick, interval).unref();
+  };
+
+  const thresholds = getHealthThresholds();
+  console.log(`[Health] Monitoring baskets every ${interval}ms from the ${getMonitorSource()} (max drift ${thresholds.maxDriftBps} bps, min collateral ${thresholds.minCollateralRatio})`);
+  void tick();
+}
@@ -0,0 +1,225 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { BasketFactoryABI } from '../config/abis.js';
+import { getPublicClient } from './chain.js';
+import { getBasketFactoryAddress } from './basket-verification.js';
+import { BasketStoreError, getBasketStore } from '../storage/index.js';
+
+// Free-tier RPCs reject wide eth_getLogs calls, so logs are fetched in bounded ranges
+const DEFAULT_BLOCK_RANGE = 1000n;
+const DEFAULT_MAX_RANGES_PER_RUN = 50;
+// Blocks behind the head left unindexed so shallow reorgs do not leave phantom baskets
+const DEFAULT_CONFIRMATIONS = 2n;
+const DEFAULT_POLL_INTERVAL_MS = 60_000;
+
+interface IndexerCheckpoint {
+  chainId: number;
+  factory: string;
+  lastBlock: string;
+  updatedAt: string;
+}
+
+export interface IndexerRunResult {
+  fromBlock: bigint;
+  toBlock: bigint;
+  created: string[];
+  updated: string[];
+  skipped: string[];
+  caughtUp: boolean;
+}
+
+function getCheckpointPath(): string {
+  return process.env.INDEXER_CHECKPOINT_PATH || join(process.cwd(), 'data/indexer-checkpoint.json');
+}
+
+function readBigIntEnv(name: string, fallback: bigint): bigint {
+  const value = process.env[name];
+  if (!value || !/^\d+$/.test(value)) return fallback;
+  return BigInt(value);
+}
+
+function loadCheckpoint(): IndexerCheckpoint | undefined {
+  const checkpointPath = getCheckpointPath();
+  if (!existsSync(checkpointPath)) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(readFileSync(checkpointPath, 'utf-8'));
+  } catch (error) {
+    console.error('[Indexer] Failed to load checkpoint:', error);
+    return undefined;
+  }
+}
+
+function saveCheckpoint(checkpoint: IndexerCheckpoint): void {
+  const checkpointPath = getCheckpointPath();
+  const tempPath = `${checkpointPath}.tmp`;
+  mkdirSync(dirname(checkpointPath), { recursive: true });
+  writeFileSync(tempPath, JSON.stringify(checkpoint, null, 2) + '\n', 'utf-8');
+  renameSync(tempPath, checkpointPath);
+}
+
+/**
+ * INDEXER_START_BLOCK, which has no default: scanning a public chain from genesis
+ * would take millions of eth_getLogs calls before the first basket is found
+ */
+function readStartBlock(): bigint {
+  const value = process.env.INDEXER_START_BLOCK;
+  if (!value || !/^\d+$/.test(value)) {
+    throw new Error(
+      `INDEXER_START_BLOCK must be set to the factory's deployment block when there is no checkpoint for ${getBasketFactoryAddress()}`,
+    );
+  }
+  return BigInt(value);
+}
+
+function isCheckpointFor(checkpoint: IndexerCheckpoint | undefined, factory: string): checkpoint is IndexerCheckpoint {
+  return checkpoint !== undefined && checkpoint.factory.toLowerCase() === factory.toLowerCase();
+}
+
+/**
+ * First block to scan: one past the checkpoint, or INDEXER_START_BLOCK when there
+ * is no checkpoint for this chain + factory
+ */
+function resolveStartBlock(checkpoint: IndexerCheckpoint | undefined, chainId: number, factory: string): bigint {
+  if (isCheckpointFor(checkpoint, factory) && checkpoint.chainId === chainId) {
+    return BigInt(checkpoint.lastBlock) + 1n;
+  }
+
+  if (checkpoint) {
+    console.warn(`[Indexer] Checkpoint is for ${checkpoint.factory} on chain ${checkpoint.chainId}; starting over`);
+  }
+  return readStartBlock();
+}
+
+/**
+ * Scans BasketCreated logs from the configured factory and upserts them into the
+ * registry; new baskets are created disabled. Processes at most INDEXER_MAX_RANGES_PER_RUN ranges of
+ * INDEXER_BLOCK_RANGE blocks, checkpointing after each range.
+ */
+export async function runIndexerOnce(): Promise<IndexerRunResult> {
+  const client = getPublicClient();
+  const factory = getBasketFactoryAddress();
+  const blockRange = readBigIntEnv('INDEXER_BLOCK_RANGE', DEFAULT_BLOCK_RANGE);
+  const confirmations = readBigIntEnv('INDEXER_CONFIRMATIONS', DEFAULT_CONFIRMATIONS);
+  const maxRanges = Number(readBigIntEnv('INDEXER_MAX_RANGES_PER_RUN', BigInt(DEFAULT_MAX_RANGES_PER_RUN)));
+
+  const [chainId, head] = await Promise.all([client.getChainId(), client.getBlockNumber()]);
+  const safeHead = head > confirmations ? head - confirmations : 0n;
+  const startBlock = resolveStartBlock(loadCheckpoint(), chainId, factory);
+
+  const result: IndexerRunResult = {
+    fromBlock: startBlock,
+    toBlock: startBlock - 1n,
+    created: [],
+    updated: [],
+    skipped: [],
+    caughtUp: startBlock > safeHead,
+  };
+
+  let fromBlock = startBlock;
+  for (let i = 0; i < maxRanges && fromBlock <= safeHead; i++) {
+    const toBlock = fromBlock + blockRange - 1n < safeHead ? fromBlock + blockRange - 1n : safeHead;
+
+    const logs = await client.getContractEvents({
+      address: factory,
+      abi: BasketFactoryABI,
+      eventName: 'BasketCreated',
+      fromBlock,
+      toBlock,
+    });
+
+    const basketStore = getBasketStore();
+
+    for (const log of logs) {
+      const { stablecoin, mintingConsumer, name, symbol } = log.args;
+      if (!stablecoin || !mintingConsumer || !name || !symbol) continue;
+
+      const existing = basketStore.get(symbol);
+
+      try {
+        if (!existing) {
+          // The factory is permissionless, so indexed baskets stay disabled until an admin enables them
+          basketStore.create({
+            name,
+            symbol,
+            stablecoinAddress: stablecoin,
+            mintingConsumerAddress: mintingConsumer,
+            creationTxHash: log.transactionHash,
+            status: 'disabled',
+          }, { actor: 'indexer' });
+          result.created.push(symbol);
+        } else if (existing.stablecoinAddress.toLowerCase() !== stablecoin.toLowerCase()) {
+          // Symbols are not unique on-chain; the first registered basket keeps the symbol
+          console.warn(`[Indexer] ${symbol} already registered for ${existing.stablecoinAddress}; skipping ${stablecoin}`);
+          result.skipped.push(symbol);
+        } else if (!existing.creationTxHash) {
+          // Manually published baskets get their provenance filled in; consumer rotations are kept
+          basketStore.update(symbol, latest => ({ ...latest, creationTxHash: log.transactionHash }), 'update', {
+            actor: 'indexer',
+            expectedVersion: existing.version,
+          });
+          result.updated.push(symbol);
+        }
+      } catch (error) {
+        // Published or edited through the API between our read and write; the API's record wins.
+        // A busy registry fails the run so this range is scanned again
+        if (!(error instanceof BasketStoreError) || error.code === 'REGISTRY_BUSY') throw error;
+        console.warn(`[Indexer] ${symbol} changed while indexing: ${error.message}`);
+        result.skipped.push(symbol);
+      }
+    }
+
+    saveCheckpoint({
+      chainId,
+      factory,
+      lastBlock: toBlock.toString(),
+      updatedAt: new Date().toISOString(),
+    });
+
+    result.toBlock = toBlock;
+    fromBlock = toBlock + 1n;
+  }
+
+  result.caughtUp = fromBlock > safeHead;
+  return result;
+}
+
+export function logIndexerRun(run: IndexerRunResult): void {
+  if (run.toBlock < run.fromBlock) return;
+  console.log(
+    `[Indexer] Blocks ${run.fromBlock}-${run.toBlock}: ` +
+    `${run.created.length} created, ${run.updated.length} updated, ${run.skipped.length} skipped` +
+    (run.caughtUp ? '' : ' (catching up)'),
+  );
+}
+
+/**
+ * Polls the factory every INDEXER_POLL_INTERVAL_MS. Runs never overlap; a run
+ * that has not caught up is followed immediately by the next one.
+ */
+export function startBasketIndexer(): void {
+  // Fail at startup rather than on the first run when there is nowhere to start from
+  if (!isCheckpointFor(loadCheckpoint(), getBasketFactoryAddress())) {
+    readStartBlock();
+  }
+
+  const configured = Number(process.env.INDEXER_POLL_INTERVAL_MS);
+  const interval = Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_POLL_INTERVAL_MS;
+
+  const tick = async () => {
+    let delay = interval;
+    try {
+      const run = await runIndexerOnce();
+      logIndexerRun(run);
+      if (!run.caughtUp) delay = 0;
+    } catch (error: any) {
+      console.error('[Indexer] Run failed:', error.shortMessage || error.message);
+    }
+    setTimeout(tick, delay).unref();
+  };
+
+  console.log(`[Indexer] Watching BasketCreated from ${getBasketFactoryAddress()} every ${interval}ms`);
+  void tick();
+}
@@ -0,0 +1,79 @@
+import {
+  getBasketStore,
+  type BasketPause,
+  type BasketRecord,
+  type BasketWriteOptions,
+} from '../storage/index.js';
+
+/**
+ * The workflow's pause instruction: reserves were below on-chain supply
+ */
+export type PauseInstruction = Pick<BasketPause, 'reason' | 'totalSupply' | 'totalReserves'>;
+
+/**
+ * Flips an active basket to paused on the workflow's (or health monitor's) instruction,
+ * recorded in its history as a `pause` by `workflow`. Paused, disabled and archived
+ * baskets are left alone, as are baskets whose registered stablecoin is not the one the
+ * instruction was about. Returns the paused record, or undefined when nothing changed.
+ */
+export function pauseBasket(
+  symbol: string,
+  instruction: PauseInstruction,
+  origin: Pick<BasketPause, 'source' | 'transactionId'> & { stablecoinAddress: string },
+): BasketRecord | undefined {
+  const basketStore = getBasketStore();
+  const current = basketStore.get(symbol);
+  if (current?.status !== 'active') {
+    return undefined;
+  }
+
+  // Symbols are not unique on-chain, so a report for another token must not pause this basket
+  const isSameToken = (record: BasketRecord) => record.stablecoinAddress.toLowerCase() === origin.stablecoinAddress.toLowerCase();
+  if (!isSameToken(current)) {
+    console.warn(`[Baskets] Not pausing ${symbol}: pause was for ${origin.stablecoinAddress}, registry has ${current.stablecoinAddress}`);
+    return undefined;
+  }
+
+  const pause: BasketPause = {
+    reason: instruction.reason,
+    totalSupply: instruction.totalSupply,
+    totalReserves: instruction.totalReserves,
+    source: origin.source,
+    ...(origin.transactionId ? { transactionId: origin.transactionId } : {}),
+    at: new Date().toISOString(),
+  };
+
+  const record = basketStore.update(
+    symbol,
+    latest => (latest.status === 'active' && isSameToken(latest) ? { ...latest, status: 'paused', pause } : latest),
+    'pause',
+    { actor: 'workflow' },
+  );
+
+  console.warn(`[Baskets] Paused ${symbol} (${origin.source}${origin.transactionId ? ` ${origin.transactionId}` : ''}): ${pause.reason}`);
+  return record;
+}
+
+/**
+ * Reactivates a paused basket. The reason, actor and the lifted pause are kept in
+ * lastUnpause, so the `unpause` history entry is the audit record.
+ */
+export function unpauseBasket(symbol: string, reason: string, options: BasketWriteOptions): BasketRecord {
+  return getBasketStore().update(symbol, latest => {
+    const { pause, ...rest } = latest;
+    if (latest.status !== 'paused') {
+      return latest;
+    }
+
+    return {
+      ...rest,
+      status: 'active',
+      lastUnpause: {
+        reason,
+        ...(options.actor ? { by: options.actor } : {}),
+        at: new Date().toISOString(),
+        ...(pause ? { pause } : {}),
+      },
+    };
+  }, 'unpause', options);
+}
@@ -0,0 +1,135 @@
+import { isAddressEqual, parseEventLogs, type Address, type Hex } from 'viem';
+import { BasketFactoryABI, MintingConsumerABI, StablecoinABI } from '../config/abis.js';
+import { getPublicClient } from './chain.js';
+
+// Deployed Sepolia factory, same default as the frontend's NEXT_PUBLIC_BASKET_FACTORY_ADDRESS
+const DEFAULT_BASKET_FACTORY_ADDRESS = '0x7419818Baf1373B5a75ab265C00c2ea0895Bd590';
+
+export type BasketVerificationCode =
+  | 'CONSUMER_NOT_A_CONTRACT'
+  | 'CONSUMER_STABLECOIN_MISMATCH'
+  | 'CONSUMER_NOT_MINTER'
+  | 'CREATION_TX_NOT_FOUND'
+  | 'NOT_CREATED_BY_FACTORY'
+  | 'CHAIN_UNAVAILABLE';
+
+export class BasketVerificationError extends Error {
+  constructor(
+    public readonly code: BasketVerificationCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'BasketVerificationError';
+  }
+}
+
+export interface BasketVerificationInput {
+  stablecoinAddress: string;
+  mintingConsumerAddress: string;
+  creationTxHash?: string;
+}
+
+export function getBasketFactoryAddress(): Address {
+  return (process.env.BASKET_FACTORY_ADDRESS || DEFAULT_BASKET_FACTORY_ADDRESS) as Address;
+}
+
+/**
+ * Checks that the consumer is wired to the stablecoin: consumer.getStablecoin()
+ * must return the stablecoin, and the stablecoin must list the consumer as a minter.
+ */
+async function verifyConsumerWiring(stablecoin: Address, consumer: Address): Promise<void> {
+  const client = getPublicClient();
+
+  const code = await client.getCode({ address: consumer });
+  if (!code || code === '0x') {
+    throw new BasketVerificationError('CONSUMER_NOT_A_CONTRACT', `No contract deployed at minting consumer ${consumer}`);
+  }
+
+  let consumerStablecoin: Address;
+  try {
+    consumerStablecoin = await client.readContract({
+      address: consumer,
+      abi: MintingConsumerABI,
+      functionName: 'getStablecoin',
+    });
+  } catch {
+    throw new BasketVerificationError(
+      'CONSUMER_STABLECOIN_MISMATCH',
+      `Minting consumer ${consumer} does not implement getStablecoin()`,
+    );
+  }
+
+  if (!isAddressEqual(consumerStablecoin, stablecoin)) {
+    throw new BasketVerificationError(
+      'CONSUMER_STABLECOIN_MISMATCH',
+      `Minting consumer ${consumer} is bound to stablecoin ${consumerStablecoin}, not ${stablecoin}`,
+    );
+  }
+
+  const isMinter = await client.readContract({
+    address: stablecoin,
+    abi: StablecoinABI,
+    functionName: 'isMinter',
+    args: [consumer],
+  });
+
+  if (!isMinter) {
+    throw new BasketVerificationError(
+      'CONSUMER_NOT_MINTER',
+      `Minting consumer ${consumer} is not a minter on stablecoin ${stablecoin}`,
+    );
+  }
+}
+
+/**
+ * Checks that the creation transaction emitted BasketCreated for this pair from the configured factory
+ */
+async function verifyFactoryProvenance(stablecoin: Address, consumer: Address, txHash: Hex): Promise<void> {
+  const factory = getBasketFactoryAddress();
+
+  let receipt;
+  try {
+    receipt = await getPublicClient().getTransactionReceipt({ hash: txHash });
+  } catch (error: any) {
+    if (error.name === 'TransactionReceiptNotFoundError') {
+      throw new BasketVerificationError('CREATION_TX_NOT_FOUND', `Creation transaction ${txHash} not found`);
+    }
+    throw error;
+  }
+
+  const created = parseEventLogs({ abi: BasketFactoryABI, eventName: 'BasketCreated', logs: receipt.logs })
+    .find(log =>
+      isAddressEqual(log.address, factory) &&
+      isAddressEqual(log.args.stablecoin, stablecoin) &&
+      isAddressEqual(log.args.mintingConsumer, consumer),
+    );
+
+  if (!created) {
+    throw new BasketVerificationError(
+      'NOT_CREATED_BY_FACTORY',
+      `Transaction ${txHash} has no BasketCreated event from factory ${factory} for this stablecoin/consumer pair`,
+    );
+  }
+}
+
+/**
+ * Verifies a basket against the chain before it is written to the registry.
+ * Throws BasketVerificationError with a specific code when a check fails.
+ */
+export async function verifyBasket(input: BasketVerificationInput): Promise<void> {
+  const stablecoin = input.stablecoinAddress as Address;
+  const consumer = input.mintingConsumerAddress as Address;
+
+  try {
+    await verifyConsumerWiring(stablecoin, consumer);
+    if (input.creationTxHash) {
+      await verifyFactoryProvenance(stablecoin, consumer, input.creationTxHash as Hex);
+    }
+  } catch (error: any) {
+    if (error instanceof BasketVerificationError) throw error;
+    throw new BasketVerificationError(
+      'CHAIN_UNAVAILABLE',
+      `Could not verify basket on-chain: ${error.shortMessage || error.message}`,
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { createPublicClient, http, type PublicClient } from 'viem';
+import { sepolia } from 'viem/chains';
+
+// Same public endpoint as project.yaml's staging/production targets
+const DEFAULT_RPC_URL = 'https://ethereum-sepolia-rpc.publicnode.com';
+
+let client: PublicClient | undefined;
+
+/**
+ * Shared read-only client for RPC_URL (created on first use so .env is loaded)
+ */
+export function getPublicClient(): PublicClient {
+  if (!client) {
+    const rpcUrl = process.env.RPC_URL || DEFAULT_RPC_URL;
+    client = createPublicClient({ chain: sepolia, transport: http(rpcUrl) });
+    console.log(`[Chain] Using RPC ${rpcUrl}`);
+  }
+  return client;
+}
@@ -2,25 +2,71 @@ import crypto from 'crypto';
 import { spawn } from 'child_process';
 import { writeFileSync, unlinkSync } from 'fs';
 import { join } from 'path';
+import { queryEntries, recordReceived, updateStatus } from './mint-ledger.js';
+import { enqueueJob, type Job } from './job-queue.js';
+import type { BasketConstituent, ReserveSource } from '../storage/index.js';
+import { checkExecution } from './execution-confirmation.js';
+import { pauseBasket } from './basket-pause.js';
+import { parseWorkflowResult, WorkflowResultError, type WorkflowErrorDetails, type WorkflowResult } from './workflow-result.js';
+
+export type WorkflowInstruction = 'MINT' | 'REDEEM';
 
 export interface MintRequest {
+  instruction?: WorkflowInstruction;
   basket: string;
   beneficiary: string;
   amount: string;
   stablecoinAddress: string;
   mintingConsumerAddress: string;
+  // Basket denomination (ISO 4217), USD when unset
+  currency?: string;
+  reserveSource?: ReserveSource;
+  constituents?: BasketConstituent[];
+  // API client that submitted the request (recorded in the ledger)
+  clientId?: string;
+  // Signed-in wallet behind the request (recorded in the ledger)
+  wallet?: string;
 }
 
 export interface MintResponse {
   success: boolean;
+  instruction?: WorkflowInstruction;
   transactionId?: string;
   mintTransaction?: string;
+  redeemTransaction?: string;
+  ccipTransaction?: string;
   beneficiary?: string;
   amount?: string;
   basket?: string;
   message?: string;
   error?: string;
   etherscanUrl?: string;
+  attestationTimestamp?: string;
+  // Decoded revert for failed report writes (policy, reason, custom error)
+  errorDetails?: WorkflowErrorDetails;
+  confirmed?: boolean;
+  // The PoR check found the basket under-collateralized and it was paused
+  basketPaused?: boolean;
+}
+
+export interface CREPayload {
+  messageType: string;
+  transactionId: string;
+  sender: { name: string; account: string; bankCode: string };
+  beneficiary: { name: string; account: string };
+  amount: string;
+  currency: string;
+  valueDate: string;
+  bankReference: string;
+  instructionType: WorkflowInstruction;
+  basket: {
+    symbol: string;
+    stablecoinAddress: string;
+    mintingConsumerAddress: string;
+    currency: string;
+    reserveSource?: ReserveSource;
+    constituents?: BasketConstituent[];
+  };
 }
 
 /**
@@ -33,18 +79,30 @@ function generateTransactionId(): string {
 }
 
 /**
- * Generates a bank reference (bytes32 format)
+ * Generates a bank reference (bytes32 format). The workflow's stringToBytes32 keeps
+ * it as-is, so consumer events carry exactly this value (see test/bank-reference.test.ts)
  */
-function generateBankReference(transactionId: string): string {
+export function generateBankReference(transactionId: string): string {
   const buffer = Buffer.alloc(32);
   buffer.write(transactionId);
   return '0x' + buffer.toString('hex');
 }
 
+function getProjectRoot(): string {
+  return process.env.CRE_PROJECT_ROOT || join(process.cwd(), '..');
+}
+
+/**
+ * Directory of the CRE workflow (main.ts, config.json, mock files)
+ */
+export function getWorkflowPath(): string {
+  return process.env.CRE_WORKFLOW_PATH || join(getProjectRoot(), 'bank-stablecoin-por-ace-ccip-workflow');
+}
+
 /**
  * Transforms the mint request into payload for CRE workflow
  */
-function buildCREPayload(request: MintRequest): object {
+function buildCREPayload(request: MintRequest): CREPayload {
   const transactionId = generateTransactionId();
   const bankReference = generateBankReference(transactionId);
 
@@ -61,44 +119,29 @@ function buildCREPayload(request: MintRequest): object {
       account: request.beneficiary,
     },
     amount: request.amount,
-    currency: 'USD',
+    currency: request.currency ?? 'USD',
     valueDate: new Date().toISOString().slice(0, 10),
     bankReference,
+    instructionType: request.instruction ?? 'MINT',
     basket: {
       symbol: request.basket,
       stablecoinAddress: request.stablecoinAddress,
       mintingConsumerAddress: request.mintingConsumerAddress,
+      currency: request.currency ?? 'USD',
+      ...(request.reserveSource ? { reserveSource: request.reserveSource } : {}),
+      ...(request.constituents ? { constituents: request.constituents } : {}),
     },
   };
 }
 
+type CRERun = { success: boolean; output: string; error?: string };
+
 /**
- * Runs CRE workflow simulation locally with --broadcast to submit real transactions
+ * Runs the CRE CLI from the project root, streaming its output to the console
  */
-function runCRESimulation(payload: object): Promise<{ success: boolean; output: string; error?: string }> {
+function spawnCRE(args: string[]): Promise<CRERun> {
   return new Promise((resolve) => {
-    const projectRoot = process.env.CRE_PROJECT_ROOT || join(process.cwd(), '..');
-    const workflowPath = process.env.CRE_WORKFLOW_PATH || join(projectRoot, 'bank-stablecoin-por-ace-ccip-workflow');
-    const payloadJson = JSON.stringify(payload);
-
-    // Write payload to temp file
-    const tempPayloadPath = join(workflowPath, `temp-payload-${Date.now()}.json`);
-    writeFileSync(tempPayloadPath, payloadJson);
-
-    console.log(`[CRE Simulate] Project root: ${projectRoot}`);
-    console.log(`[CRE Simulate] Workflow path: ${workflowPath}`);
-    console.log(`[CRE Simulate] Payload: ${payloadJson}`);
-
-    const args = [
-      'workflow', 'simulate',
-      workflowPath,
-      '--project-root', projectRoot,
-      '--target', 'staging-settings',
-      '--http-payload', tempPayloadPath,
-      '--broadcast',
-      '--non-interactive',
-      '--trigger-index', '0',
-    ];
+    const projectRoot = getProjectRoot();
 
     console.log(`[CRE Simulate] Running: cre ${args.join(' ')}`);
 
@@ -123,13 +166,6 @@ function runCRESimulation(payload: object): Promise<{ success: boolean; output:
     });
 
     proc.on('close', (code) => {
-      // Clean up temp file
-      try {
-        unlinkSync(tempPayloadPath);
-      } catch (e) {
-        // ignore
-      }
-
       if (code === 0) {
         resolve({ success: true, output: stdout });
       } else {
@@ -138,82 +174,248 @@ function runCRESimulation(payload: object): Promise<{ success: boolean; output:
     });
 
     proc.on('error', (err) => {
-      // Clean up temp file
-      try {
-        unlinkSync(tempPayloadPath);
-      } catch (e) {
-        // ignore
-      }
       resolve({ success: false, output: '', error: err.message });
     });
   });
 }
 
 /**
- * Parse CRE simulation output to extract transaction hash and result
+ * Runs CRE workflow simulation locally with --broadcast to submit real transactions
  */
-function parseSimulationOutput(output: string, request: MintRequest): MintResponse {
-  // Look for transaction hash in output
-  const txHashMatch = output.match(/0x[a-fA-F0-9]{64}/);
-  const txHash = txHashMatch ? txHashMatch[0] : undefined;
-
-  // Look for success indicators
-  const isSuccess = output.includes('reportDelivered') ||
-                    output.includes('Report delivered') ||
-                    output.includes('MintExecuted') ||
-                    (txHash && !output.includes('FAILED') && !output.includes('Error'));
-
-  // Extract transaction ID
-  const txIdMatch = output.match(/BSKT\d{8}[A-F0-9]{8}/);
-  const transactionId = txIdMatch ? txIdMatch[0] : undefined;
-
-  if (isSuccess && txHash) {
-    return {
-      success: true,
+async function runCRESimulation(payload: CREPayload): Promise<CRERun> {
+  const projectRoot = getProjectRoot();
+  const workflowPath = getWorkflowPath();
+  const payloadJson = JSON.stringify(payload);
+
+  // Write payload to temp file
+  const tempPayloadPath = join(workflowPath, `temp-payload-${Date.now()}.json`);
+  writeFileSync(tempPayloadPath, payloadJson);
+
+  console.log(`[CRE Simulate] Project root: ${projectRoot}`);
+  console.log(`[CRE Simulate] Workflow path: ${workflowPath}`);
+  console.log(`[CRE Simulate] Payload: ${payloadJson}`);
+
+  try {
+    return await spawnCRE([
+      'workflow', 'simulate',
+      workflowPath,
+      '--project-root', projectRoot,
+      '--target', 'staging-settings',
+      '--http-payload', tempPayloadPath,
+      '--broadcast',
+      '--non-interactive',
+      '--trigger-index', '0',
+    ]);
+  } finally {
+    // Clean up temp file
+    try {
+      unlinkSync(tempPayloadPath);
+    } catch (e) {
+      // ignore
+    }
+  }
+}
+
+/**
+ * Runs the workflow's scheduled PoR monitor (cron trigger, index 1) once.
+ * It only reads chain state, so nothing is broadcast.
+ */
+export function runCREMonitorSimulation(): Promise<CRERun> {
+  return spawnCRE([
+    'workflow', 'simulate',
+    getWorkflowPath(),
+    '--project-root', getProjectRoot(),
+    '--target', 'staging-settings',
+    '--non-interactive',
+    '--trigger-index', '1',
+  ]);
+}
+
+/**
+ * Maps the workflow's result envelope onto the API response, keeping the
+ * workflow's error code (POR_INSUFFICIENT_RESERVES, ACE_POLICY_REJECTED, ...)
+ */
+function toMintResponse(result: WorkflowResult, request: MintRequest): MintResponse {
+  const txHash = result.mintTransaction ?? result.redeemTransaction;
+
+  return {
+    success: result.success,
+    instruction: result.instructionType,
+    transactionId: result.transactionId,
+    mintTransaction: result.mintTransaction,
+    redeemTransaction: result.redeemTransaction,
+    ccipTransaction: result.ccipTransaction,
+    beneficiary: result.beneficiary ?? request.beneficiary,
+    amount: result.amount ?? request.amount,
+    basket: request.basket,
+    message: result.success ? result.message : result.error?.message,
+    error: result.error?.code,
+    attestationTimestamp: result.error?.attestationTimestamp,
+    errorDetails: result.error?.details,
+    ...(txHash ? { etherscanUrl: `https://sepolia.etherscan.io/tx/${txHash}` } : {}),
+  };
+}
+
+/**
+ * Runs the CRE workflow simulation for an already-recorded payload and
+ * moves the ledger entry through simulating → report_delivered / failed
+ */
+async function runCREWorkflow(payload: CREPayload, request: MintRequest): Promise<MintResponse> {
+  const { transactionId } = payload;
+
+  console.log('[CRE Workflow] Triggering local simulation with broadcast...');
+  console.log('[CRE Workflow] Payload:', JSON.stringify(payload, null, 2));
+
+  updateStatus(transactionId, 'simulating');
+  const result = await runCRESimulation(payload);
+
+  let response: MintResponse;
+  try {
+    // The workflow also emits an envelope when it throws, so check the output even on a non-zero exit
+    const workflowResult = parseWorkflowResult(result.output);
+    response = { ...toMintResponse(workflowResult, request), transactionId };
+
+    if (workflowResult.pause && pauseBasket(request.basket, workflowResult.pause, {
+      source: 'mint',
       transactionId,
-      mintTransaction: txHash,
+      stablecoinAddress: request.stablecoinAddress,
+    })) {
+      response.basketPaused = true;
+    }
+  } catch (error) {
+    if (!(error instanceof WorkflowResultError)) throw error;
+
+    console.error('[CRE Workflow] No usable result envelope:', error.message);
+    if (!result.success) {
+      console.error('[CRE Workflow] Simulation failed:', result.error);
+    }
+
+    response = {
+      success: false,
+      instruction: payload.instructionType,
+      transactionId,
+      error: result.success ? error.code : 'CRE_SIMULATION_ERROR',
+      message: result.success ? error.message : result.error || 'Failed to run CRE simulation',
       beneficiary: request.beneficiary,
-      amount: request.amount,
       basket: request.basket,
-      message: `Minted ${request.amount} tokens to ${request.beneficiary}`,
-      etherscanUrl: `https://sepolia.etherscan.io/tx/${txHash}`,
     };
-  } else {
-    // Try to extract error message
-    const errorMatch = output.match(/Error:?\s*(.+)/i) || output.match(/FAILED[:\s]*(.+)/i);
-    const errorMessage = errorMatch ? errorMatch[1].trim() : 'CRE simulation failed';
+  }
+
+  if (!response.success) {
+    updateStatus(transactionId, 'failed', {
+      error: response.error,
+      message: response.message,
+      ...(response.errorDetails ? { errorDetails: response.errorDetails } : {}),
+    });
+    return response;
+  }
+
+  const txHash = response.mintTransaction ?? response.redeemTransaction;
+  updateStatus(transactionId, 'report_delivered', { txHash, message: response.message });
 
+  return txHash ? confirmExecution(payload, txHash, response) : response;
+}
+
+/**
+ * Looks for the consumer's execution event in the delivered report's receipt and
+ * moves the ledger entry to confirmed / failed. If the receipt cannot be fetched
+ * the entry stays in report_delivered.
+ */
+async function confirmExecution(payload: CREPayload, txHash: string, response: MintResponse): Promise<MintResponse> {
+  const { transactionId, instructionType } = payload;
+  const check = await checkExecution(
+    txHash,
+    payload.basket.mintingConsumerAddress,
+    payload.bankReference,
+    instructionType,
+  );
+
+  if (check.outcome === 'executed') {
+    const verb = instructionType === 'REDEEM' ? 'Redeemed' : 'Minted';
+    const message = `${verb} ${response.amount} ${payload.basket.symbol} (confirmed in block ${check.blockNumber})`;
+    updateStatus(transactionId, 'confirmed', { message }, `block ${check.blockNumber}`);
+    return { ...response, confirmed: true, message };
+  }
+
+  if (check.outcome === 'unknown') {
+    console.error(`[CRE Workflow] Could not confirm ${transactionId}: ${check.reason}`);
     return {
-      success: false,
-      error: 'CRE_SIMULATION_FAILED',
-      message: errorMessage,
-      beneficiary: request.beneficiary,
-      basket: request.basket,
+      ...response,
+      confirmed: false,
+      message: `${response.message ?? 'Report delivered'}; on-chain confirmation pending (${check.reason})`,
     };
   }
+
+  const error = instructionType === 'REDEEM' ? 'REDEEM_NOT_EXECUTED' : 'MINT_NOT_EXECUTED';
+  const message = check.reverted
+    ? `Report transaction ${txHash} reverted`
+    : `No ${instructionType === 'REDEEM' ? 'RedeemExecuted' : 'MintExecuted'} event for this request in ${txHash} (the consumer call reverted, e.g. rejected by an ACE policy)`;
+
+  updateStatus(transactionId, 'failed', { error, message }, `block ${check.blockNumber}`);
+  return { ...response, success: false, confirmed: false, error, message };
 }
 
 /**
- * Triggers the CRE workflow via local simulation with --broadcast
+ * Queues a CRE workflow run (local simulation with --broadcast)
+ * Handles both MINT and REDEEM instructions (defaults to MINT)
+ * The request is recorded in the mint ledger immediately; the simulator runs
+ * on the job queue so the HTTP request does not block on it
  */
-export async function triggerCREWorkflow(request: MintRequest): Promise<MintResponse> {
+export function queueCREWorkflow(request: MintRequest): Job<MintResponse> {
   const payload = buildCREPayload(request);
+  const { transactionId } = payload;
 
-  console.log('[CRE Workflow] Triggering local simulation with broadcast...');
-  console.log('[CRE Workflow] Payload:', JSON.stringify(payload, null, 2));
+  recordReceived({
+    transactionId,
+    instruction: payload.instructionType,
+    basket: request.basket,
+    beneficiary: request.beneficiary,
+    amount: request.amount,
+    stablecoinAddress: request.stablecoinAddress,
+    mintingConsumerAddress: request.mintingConsumerAddress,
+    clientId: request.clientId,
+    wallet: request.wallet,
+    payload,
+  });
 
-  const result = await runCRESimulation(payload);
+  return enqueueJob(payload.instructionType.toLowerCase(), () => runCREWorkflow(payload, request), {
+    transactionId,
+    clientId: request.clientId,
+    wallet: request.wallet,
+    isFailure: result => !result.success,
+  });
+}
 
-  if (result.success) {
-    return parseSimulationOutput(result.output, request);
-  } else {
-    console.error('[CRE Workflow] Simulation failed:', result.error);
-    return {
-      success: false,
-      error: 'CRE_SIMULATION_ERROR',
-      message: result.error || 'Failed to run CRE simulation',
-      beneficiary: request.beneficiary,
-      basket: request.basket,
+/**
+ * Settles ledger entries left unfinished by a restart: the job queue is in memory,
+ * so their jobs are gone. Requests that had not delivered a report are marked failed
+ * rather than re-queued, since a simulator killed mid-run may already have broadcast;
+ * delivered reports are confirmed from their receipt again.
+ */
+export async function recoverUnfinishedRequests(): Promise<void> {
+  const interrupted = [...queryEntries({ status: 'received' }), ...queryEntries({ status: 'simulating' })];
+  for (const entry of interrupted) {
+    updateStatus(entry.transactionId, 'failed', {
+      error: 'BACKEND_RESTARTED',
+      message: `Backend restarted before the workflow run finished; check ${entry.mintingConsumerAddress} for bank reference events before resubmitting`,
+    }, 'restart');
+  }
+
+  for (const entry of queryEntries({ status: 'report_delivered' })) {
+    if (!entry.txHash || !entry.payload) continue;
+    const response: MintResponse = {
+      success: true,
+      instruction: entry.instruction,
+      transactionId: entry.transactionId,
+      beneficiary: entry.beneficiary,
+      amount: entry.amount,
+      basket: entry.basket,
+      message: entry.message,
     };
+    await confirmExecution(entry.payload as CREPayload, entry.txHash, response);
+  }
+
+  if (interrupted.length > 0) {
+    console.warn(`[CRE Workflow] Marked ${interrupted.length} request(s) interrupted by a restart as failed`);
   }
 }
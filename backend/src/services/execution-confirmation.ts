@@ -0,0 +1,57 @@
+import { parseEventLogs, type Hex } from 'viem';
+import { MintingConsumerABI } from '../config/abis.js';
+import { getPublicClient } from './chain.js';
+import type { WorkflowInstruction } from './cre-workflow.js';
+
+const DEFAULT_RECEIPT_TIMEOUT_MS = 120_000;
+
+export type ExecutionCheck =
+  | { outcome: 'executed'; blockNumber: bigint }
+  | { outcome: 'not_executed'; reverted: boolean; blockNumber: bigint }
+  | { outcome: 'unknown'; reason: string };
+
+function getReceiptTimeoutMs(): number {
+  const configured = Number(process.env.CONFIRMATION_TIMEOUT_MS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_RECEIPT_TIMEOUT_MS;
+}
+
+/**
+ * Checks the receipt of a delivered report for the consumer's execution event.
+ * The CRE forwarder transaction succeeds even when the consumer call is rejected
+ * (e.g. by an ACE policy), so only a MintExecuted / RedeemExecuted log from the
+ * consumer with our bankReference counts as executed. A rejected call reverts the
+ * consumer's *InstructionReceived event with it, so there is nothing else to look for.
+ */
+export async function checkExecution(
+  txHash: string,
+  consumerAddress: string,
+  bankReference: string,
+  instruction: WorkflowInstruction,
+): Promise<ExecutionCheck> {
+  let receipt;
+  try {
+    receipt = await getPublicClient().waitForTransactionReceipt({
+      hash: txHash as Hex,
+      timeout: getReceiptTimeoutMs(),
+    });
+  } catch (error: any) {
+    return { outcome: 'unknown', reason: error.shortMessage || error.message || 'Failed to fetch receipt' };
+  }
+
+  const reference = bankReference.toLowerCase();
+  const consumer = consumerAddress.toLowerCase();
+  const events = parseEventLogs({ abi: MintingConsumerABI, logs: receipt.logs })
+    .filter(log => log.address.toLowerCase() === consumer && log.args.bankReference.toLowerCase() === reference);
+
+  const executedEvent = instruction === 'REDEEM' ? 'RedeemExecuted' : 'MintExecuted';
+
+  if (events.some(log => log.eventName === executedEvent)) {
+    return { outcome: 'executed', blockNumber: receipt.blockNumber };
+  }
+
+  return {
+    outcome: 'not_executed',
+    reverted: receipt.status === 'reverted',
+    blockNumber: receipt.blockNumber,
+  };
+}
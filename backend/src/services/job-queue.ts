@@ -0,0 +1,122 @@
+import crypto from 'crypto';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface Job<TResult = unknown> {
+  id: string;
+  type: string;
+  status: JobStatus;
+  transactionId?: string;
+  clientId?: string;
+  // Signed-in wallet that requested the job; wallet sessions only see their own jobs
+  wallet?: string;
+  result?: TResult;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+interface QueuedJob<TResult> {
+  job: Job<TResult>;
+  run: () => Promise<TResult>;
+  isFailure?: (result: TResult) => boolean;
+}
+
+// Finished jobs are kept in memory for polling; the mint ledger is the durable record
+const JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const jobs = new Map<string, Job<any>>();
+const pending: QueuedJob<any>[] = [];
+let running = 0;
+
+/**
+ * Max simulator processes at once. Defaults to 1 because concurrent
+ * `cre workflow simulate --broadcast` runs race on the same signer nonce.
+ */
+function getConcurrency(): number {
+  const configured = Number(process.env.CRE_MAX_CONCURRENCY);
+  return Number.isInteger(configured) && configured > 0 ? configured : 1;
+}
+
+function generateJobId(): string {
+  return `job_${crypto.randomBytes(8).toString('hex')}`;
+}
+
+function pruneFinishedJobs(): void {
+  const cutoff = Date.now() - JOB_RETENTION_MS;
+  for (const [id, job] of jobs) {
+    if (job.finishedAt && Date.parse(job.finishedAt) < cutoff) {
+      jobs.delete(id);
+    }
+  }
+}
+
+function drain(): void {
+  while (running < getConcurrency() && pending.length > 0) {
+    const next = pending.shift()!;
+    running++;
+    execute(next).finally(() => {
+      running--;
+      drain();
+    });
+  }
+}
+
+async function execute<TResult>({ job, run, isFailure }: QueuedJob<TResult>): Promise<void> {
+  job.status = 'running';
+  job.startedAt = new Date().toISOString();
+  console.log(`[Jobs] ${job.id} (${job.type}) running`);
+
+  try {
+    const result = await run();
+    job.result = result;
+    job.status = isFailure?.(result) ? 'failed' : 'completed';
+  } catch (error: any) {
+    console.error(`[Jobs] ${job.id} threw:`, error);
+    job.status = 'failed';
+    job.error = error.message || 'Job failed unexpectedly';
+  }
+
+  job.finishedAt = new Date().toISOString();
+  console.log(`[Jobs] ${job.id} (${job.type}) ${job.status}`);
+}
+
+/**
+ * Adds a job to the in-process queue and returns it immediately in the `queued` state
+ */
+export function enqueueJob<TResult>(
+  type: string,
+  run: () => Promise<TResult>,
+  options: { transactionId?: string; clientId?: string; wallet?: string; isFailure?: (result: TResult) => boolean } = {},
+): Job<TResult> {
+  pruneFinishedJobs();
+
+  const job: Job<TResult> = {
+    id: generateJobId(),
+    type,
+    status: 'queued',
+    transactionId: options.transactionId,
+    clientId: options.clientId,
+    wallet: options.wallet,
+    createdAt: new Date().toISOString(),
+  };
+
+  jobs.set(job.id, job);
+  pending.push({ job, run, isFailure: options.isFailure });
+  console.log(`[Jobs] ${job.id} (${type}) queued for client=${job.clientId ?? 'unknown'}, ${pending.length} waiting, ${running} running`);
+
+  drain();
+  return job;
+}
+
+export function getJob(id: string): Job | undefined {
+  return jobs.get(id);
+}
+
+/**
+ * Position in the queue (1-based), or 0 if the job is not waiting
+ */
+export function getQueuePosition(id: string): number {
+  return pending.findIndex(p => p.job.id === id) + 1;
+}
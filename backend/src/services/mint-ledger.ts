@@ -0,0 +1,156 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import type { WorkflowInstruction } from './cre-workflow.js';
+import type { WorkflowErrorDetails } from './workflow-result.js';
+
+// Resolved lazily so .env (loaded in index.ts after imports) is respected
+function getLedgerPath(): string {
+  return process.env.MINT_LEDGER_PATH || join(process.cwd(), 'data/mint-ledger.jsonl');
+}
+
+/**
+ * Lifecycle of a request:
+ * received → simulating → report_delivered → confirmed
+ *                        ↘ failed          ↘ failed
+ */
+export type MintStatus = 'received' | 'simulating' | 'report_delivered' | 'confirmed' | 'failed';
+
+export interface LedgerStatusChange {
+  status: MintStatus;
+  at: string;
+  note?: string;
+}
+
+export interface LedgerEntry {
+  transactionId: string;
+  instruction: WorkflowInstruction;
+  status: MintStatus;
+  basket: string;
+  beneficiary: string;
+  amount: string;
+  stablecoinAddress: string;
+  mintingConsumerAddress: string;
+  // API client that submitted the request
+  clientId?: string;
+  // Wallet that signed in (SIWE) for the request, when one did
+  wallet?: string;
+  payload?: object;
+  txHash?: string;
+  error?: string;
+  message?: string;
+  // Decoded revert for failed writes, e.g. { errorName: 'PolicyRunRejected', policy, reason }
+  errorDetails?: WorkflowErrorDetails;
+  createdAt: string;
+  updatedAt: string;
+  history: LedgerStatusChange[];
+}
+
+export interface LedgerQuery {
+  clientId?: string;
+  basket?: string;
+  beneficiary?: string;
+  status?: MintStatus;
+  limit?: number;
+}
+
+/**
+ * Reads the ledger file and folds it into the latest snapshot per transactionId.
+ * Each line is a full snapshot, so the last line for an ID wins.
+ */
+function readEntries(): Map<string, LedgerEntry> {
+  const entries = new Map<string, LedgerEntry>();
+  const ledgerPath = getLedgerPath();
+
+  if (!existsSync(ledgerPath)) {
+    return entries;
+  }
+
+  const lines = readFileSync(ledgerPath, 'utf-8').split('\n');
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as LedgerEntry;
+      entries.set(entry.transactionId, entry);
+    } catch (error) {
+      console.error('[Ledger] Skipping malformed line:', line.slice(0, 120));
+    }
+  }
+
+  return entries;
+}
+
+function appendEntry(entry: LedgerEntry): void {
+  const ledgerPath = getLedgerPath();
+  mkdirSync(dirname(ledgerPath), { recursive: true });
+  appendFileSync(ledgerPath, JSON.stringify(entry) + '\n', 'utf-8');
+}
+
+/**
+ * Records a new request in the `received` state
+ */
+export function recordReceived(
+  entry: Omit<LedgerEntry, 'status' | 'createdAt' | 'updatedAt' | 'history'>,
+): LedgerEntry {
+  const now = new Date().toISOString();
+  const created: LedgerEntry = {
+    ...entry,
+    status: 'received',
+    createdAt: now,
+    updatedAt: now,
+    history: [{ status: 'received', at: now }],
+  };
+
+  appendEntry(created);
+  console.log(`[Ledger] ${created.transactionId}: received (client=${created.clientId ?? 'unknown'}${created.wallet ? ` wallet=${created.wallet}` : ''})`);
+  return created;
+}
+
+/**
+ * Moves a request to a new status, merging any extra fields (txHash, error, ...)
+ */
+export function updateStatus(
+  transactionId: string,
+  status: MintStatus,
+  fields: Partial<Pick<LedgerEntry, 'txHash' | 'error' | 'message' | 'errorDetails' | 'payload'>> = {},
+  note?: string,
+): LedgerEntry | undefined {
+  const current = readEntries().get(transactionId);
+
+  if (!current) {
+    console.error(`[Ledger] Cannot update unknown transaction ${transactionId}`);
+    return undefined;
+  }
+
+  const now = new Date().toISOString();
+  const updated: LedgerEntry = {
+    ...current,
+    ...fields,
+    status,
+    updatedAt: now,
+    history: [...current.history, { status, at: now, ...(note ? { note } : {}) }],
+  };
+
+  appendEntry(updated);
+  console.log(`[Ledger] ${transactionId}: ${current.status} → ${status}`);
+  return updated;
+}
+
+export function getEntry(transactionId: string): LedgerEntry | undefined {
+  return readEntries().get(transactionId);
+}
+
+/**
+ * Lists entries, newest first, filtered by client / basket / beneficiary / status
+ */
+export function queryEntries(query: LedgerQuery = {}): LedgerEntry[] {
+  const beneficiary = query.beneficiary?.toLowerCase();
+
+  const results = [...readEntries().values()]
+    .filter(e => !query.clientId || e.clientId === query.clientId)
+    .filter(e => !query.basket || e.basket === query.basket)
+    .filter(e => !beneficiary || e.beneficiary.toLowerCase() === beneficiary)
+    .filter(e => !query.status || e.status === query.status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return query.limit ? results.slice(0, query.limit) : results;
+}
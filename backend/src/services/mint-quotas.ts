@@ -0,0 +1,115 @@
+import { formatUnits, parseUnits } from 'viem';
+import { queryEntries, type LedgerEntry } from './mint-ledger.js';
+
+const DEFAULT_WINDOW_HOURS = 24;
+
+// Fixed-point scale for quota arithmetic; ledger amounts never have more fractional digits
+const QUOTA_DECIMALS = 18;
+
+export type QuotaScope = 'beneficiary' | 'basket';
+
+// Token amounts are decimal strings
+export interface QuotaExceeded {
+  scope: QuotaScope;
+  limit: string;
+  used: string;
+  remaining: string;
+  windowHours: number;
+  // When enough earlier mints leave the window; absent if the amount alone is over the limit
+  retryAfterSeconds?: number;
+}
+
+function toUnits(amount: string): bigint {
+  return parseUnits(amount, QUOTA_DECIMALS);
+}
+
+function readQuota(name: string): bigint | undefined {
+  const value = process.env[name];
+  return value && /^\d+(\.\d+)?$/.test(value) && toUnits(value) > 0n ? toUnits(value) : undefined;
+}
+
+function getWindowHours(): number {
+  const hours = Number(process.env.MINT_QUOTA_WINDOW_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_WINDOW_HOURS;
+}
+
+/**
+ * Checks one quota against the mints already in the window (oldest first)
+ */
+function checkQuota(
+  scope: QuotaScope,
+  limit: bigint,
+  mints: LedgerEntry[],
+  amount: bigint,
+  windowMs: number,
+  now: number,
+): QuotaExceeded | undefined {
+  const used = mints.reduce((sum, e) => sum + toUnits(e.amount), 0n);
+
+  if (used + amount <= limit) {
+    return undefined;
+  }
+
+  const exceeded: QuotaExceeded = {
+    scope,
+    limit: formatUnits(limit, QUOTA_DECIMALS),
+    used: formatUnits(used, QUOTA_DECIMALS),
+    remaining: formatUnits(used < limit ? limit - used : 0n, QUOTA_DECIMALS),
+    windowHours: windowMs / 3_600_000,
+  };
+
+  if (amount > limit) {
+    return exceeded;
+  }
+
+  // Walk the oldest mints out of the window until the new amount fits
+  let remaining = used;
+  for (const entry of mints) {
+    remaining -= toUnits(entry.amount);
+    if (remaining + amount <= limit) {
+      const freesAt = Date.parse(entry.createdAt) + windowMs;
+      return { ...exceeded, retryAfterSeconds: Math.max(1, Math.ceil((freesAt - now) / 1000)) };
+    }
+  }
+
+  return exceeded;
+}
+
+/**
+ * Rolling mint quotas computed from the ledger, the off-chain counterpart to the
+ * consumer's VolumePolicy. Within MINT_QUOTA_WINDOW_HOURS (default 24),
+ * MINT_QUOTA_PER_BENEFICIARY caps a basket's tokens minted to one address and
+ * MINT_QUOTA_PER_BASKET caps the basket's total. Unset means unlimited; failed requests do not count.
+ */
+export function checkMintQuota(
+  request: { basket: string; beneficiary: string; amount: string },
+  now = Date.now(),
+): QuotaExceeded | undefined {
+  const perBeneficiary = readQuota('MINT_QUOTA_PER_BENEFICIARY');
+  const perBasket = readQuota('MINT_QUOTA_PER_BASKET');
+
+  if (perBeneficiary === undefined && perBasket === undefined) {
+    return undefined;
+  }
+
+  const windowMs = getWindowHours() * 3_600_000;
+  const since = new Date(now - windowMs).toISOString();
+  const amount = toUnits(request.amount);
+
+  const basketMints = queryEntries({ basket: request.basket })
+    .filter(e => e.instruction === 'MINT' && e.status !== 'failed' && e.createdAt > since)
+    .reverse();
+
+  if (perBeneficiary !== undefined) {
+    const beneficiary = request.beneficiary.toLowerCase();
+    const beneficiaryMints = basketMints.filter(e => e.beneficiary.toLowerCase() === beneficiary);
+    const exceeded = checkQuota('beneficiary', perBeneficiary, beneficiaryMints, amount, windowMs, now);
+    if (exceeded) return exceeded;
+  }
+
+  if (perBasket !== undefined) {
+    return checkQuota('basket', perBasket, basketMints, amount, windowMs, now);
+  }
+
+  return undefined;
+}
@@ -0,0 +1,221 @@
+import { existsSync, readFileSync } from 'fs';
+import { isAbsolute, join } from 'path';
+import { isAddressEqual, recoverMessageAddress, type Address, type Hex } from 'viem';
+import type { ReserveSource } from '../storage/index.js';
+import { getWorkflowPath } from './cre-workflow.js';
+import { attestationMessage } from './reserve-attester.js';
+
+const DEFAULT_FETCH_TIMEOUT_MS = 10_000;
+
+export interface ReserveAttestation {
+  totalReserve: number;
+  lastUpdated: string;
+}
+
+// Sources in the workflow's config.json may carry the response used for file:// URLs
+type ConfiguredSource = ReserveSource & { mockResponse?: object };
+
+interface FxRateSource {
+  url: string;
+  ratesPath?: string;
+  base?: string;
+  mockResponse?: object;
+}
+
+/**
+ * The parts of the workflow's config.json the backend reads, so off-chain
+ * checks use the same reserve and FX sources as the workflow's PoR step
+ */
+export interface WorkflowReserveConfig {
+  porApiUrl?: string;
+  reserveSources?: Record<string, ConfiguredSource>;
+  fxRates?: FxRateSource;
+  trustedAttesters?: string[];
+  allowedReserveUrls?: string[];
+  maxAttestationAgeSeconds?: number;
+}
+
+// Mirrors the default of maxAttestationAgeSeconds in the workflow's configSchema
+const DEFAULT_MAX_ATTESTATION_AGE_SECONDS = 86_400;
+
+/**
+ * Which attestation a source must serve. `published` sources come from the basket
+ * registry rather than config.json and get the workflow's trust rules.
+ */
+export interface ReserveExpectation {
+  subject: string;
+  currency: string;
+  published: boolean;
+}
+
+export class ReserveAttestationError extends Error {
+  constructor(
+    public readonly code: 'POR_SOURCE_UNTRUSTED' | 'POR_ATTESTATION_INVALID' | 'POR_STALE',
+    message: string,
+  ) {
+    super(message);
+    this.name = 'ReserveAttestationError';
+  }
+}
+
+export function loadWorkflowReserveConfig(): WorkflowReserveConfig {
+  const configPath = join(getWorkflowPath(), 'config.json');
+  if (!existsSync(configPath)) {
+    return {};
+  }
+  return JSON.parse(readFileSync(configPath, 'utf-8'));
+}
+
+function readJsonPath(data: any, path: string): any {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), data);
+}
+
+/**
+ * Mirrors assertTrustedSource() in the workflow's main.ts: a published source must be
+ * https and either allow-listed or signed by a trusted attester. Checked before fetching,
+ * so publishers cannot make the backend read local files or arbitrary hosts.
+ */
+function assertTrustedSource(config: WorkflowReserveConfig, source: ReserveSource): void {
+  if (!source.url.startsWith('https://')) {
+    throw new ReserveAttestationError('POR_SOURCE_UNTRUSTED', `Published reserve source ${source.url} is not https://`);
+  }
+
+  const attester = source.attester;
+  const trustedAttester = attester !== undefined
+    && (config.trustedAttesters ?? []).some(trusted => isAddressEqual(trusted as Address, attester as Address));
+  if (!trustedAttester && !(config.allowedReserveUrls ?? []).includes(source.url)) {
+    throw new ReserveAttestationError(
+      'POR_SOURCE_UNTRUSTED',
+      `${source.url} is not an allowed reserve URL and is not signed by a trusted attester`,
+    );
+  }
+}
+
+/**
+ * Mirrors verifyAttestation() in the workflow's main.ts
+ */
+async function verifyAttestation(
+  data: any,
+  source: ReserveSource,
+  attestation: ReserveAttestation,
+  expected: ReserveExpectation,
+): Promise<void> {
+  if (!source.attester) return;
+
+  const fail = (reason: string): never => {
+    throw new ReserveAttestationError('POR_ATTESTATION_INVALID', `${source.url}: ${reason}`);
+  };
+
+  if (typeof data?.signature !== 'string') fail('response is not signed');
+  if (data.subject !== expected.subject) fail(`attestation is for "${data.subject}", expected "${expected.subject}"`);
+  if (data.currency !== expected.currency) fail(`attestation is in ${data.currency}, expected ${expected.currency}`);
+
+  let signer: Address | undefined;
+  try {
+    signer = await recoverMessageAddress({
+      message: attestationMessage({ ...attestation, subject: data.subject, currency: data.currency }),
+      signature: data.signature as Hex,
+    });
+  } catch {
+    fail('signature is malformed');
+  }
+  if (!signer || !isAddressEqual(signer, source.attester as Address)) {
+    fail(`signed by ${signer}, expected attester ${source.attester}`);
+  }
+}
+
+/**
+ * file:// URLs resolve against the workflow directory (like the CRE simulator);
+ * a configured mockResponse takes precedence, as it does in the workflow
+ */
+async function fetchJson(url: string, mockResponse?: object): Promise<any> {
+  if (url.startsWith('file://')) {
+    if (mockResponse) {
+      return mockResponse;
+    }
+    const path = url.slice('file://'.length);
+    return JSON.parse(readFileSync(isAbsolute(path) ? path : join(getWorkflowPath(), path), 'utf-8'));
+  }
+
+  const timeout = Number(process.env.RESERVE_FETCH_TIMEOUT_MS) || DEFAULT_FETCH_TIMEOUT_MS;
+  const response = await fetch(url, { signal: AbortSignal.timeout(timeout) });
+  if (!response.ok) {
+    throw new Error(`${url} responded with HTTP ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * The source's maxStalenessSeconds, capped at maxAttestationAgeSeconds when it is
+ * signed so an old figure cannot be replayed (as in the workflow)
+ */
+function maxAttestationAge(config: WorkflowReserveConfig, source: ConfiguredSource): number | undefined {
+  if (!source.attester) return source.maxStalenessSeconds;
+  return Math.min(source.maxStalenessSeconds ?? Infinity, config.maxAttestationAgeSeconds ?? DEFAULT_MAX_ATTESTATION_AGE_SECONDS);
+}
+
+/**
+ * Fetches a reserve attestation and extracts { totalReserve, lastUpdated }, applying
+ * the same trust, signature and staleness checks as the workflow's PoR step
+ */
+export async function fetchReserveAttestation(
+  config: WorkflowReserveConfig,
+  source: ConfiguredSource,
+  expected: ReserveExpectation,
+): Promise<ReserveAttestation> {
+  if (expected.published) {
+    assertTrustedSource(config, source);
+  }
+  // Published sources never use a mockResponse (only config.json may define one)
+  const data = await fetchJson(source.url, expected.published ? undefined : source.mockResponse);
+
+  const totalReserve = Number(readJsonPath(data, source.jsonPath ?? 'totalReserve'));
+  if (!Number.isFinite(totalReserve)) {
+    throw new Error(`Reserve figure not found at "${source.jsonPath ?? 'totalReserve'}" in ${source.url}`);
+  }
+
+  const attestation = {
+    totalReserve,
+    lastUpdated: String(readJsonPath(data, source.timestampPath ?? 'lastUpdated') ?? ''),
+  };
+  await verifyAttestation(data, source, attestation, expected);
+
+  const maxStalenessSeconds = maxAttestationAge(config, source);
+  if (maxStalenessSeconds !== undefined) {
+    const attestedAt = Date.parse(attestation.lastUpdated);
+    const ageSeconds = Math.floor((Date.now() - attestedAt) / 1000);
+    if (Number.isNaN(attestedAt) || ageSeconds > maxStalenessSeconds) {
+      throw new ReserveAttestationError(
+        'POR_STALE',
+        `Reserve attestation from ${source.url} is stale: lastUpdated=${attestation.lastUpdated || 'missing'}, max=${maxStalenessSeconds}s`,
+      );
+    }
+  }
+
+  return attestation;
+}
+
+/**
+ * How many units of `to` one unit of `from` is worth, from the workflow's fxRates source
+ */
+export async function fetchFxRate(config: WorkflowReserveConfig, from: string, to: string): Promise<number> {
+  if (from === to) {
+    return 1;
+  }
+
+  const source = config.fxRates;
+  if (!source) {
+    throw new Error(`No fxRates source configured to convert ${from} to ${to}`);
+  }
+
+  const data = await fetchJson(source.url, source.mockResponse);
+  const rates = readJsonPath(data, source.ratesPath ?? 'rates') ?? {};
+  const base = source.base ?? 'USD';
+  const rateOf = (currency: string): number => (currency === base ? 1 : Number(rates[currency]));
+
+  const rate = rateOf(to) / rateOf(from);
+  if (!Number.isFinite(rate) || rate <= 0) {
+    throw new Error(`No ${from}/${to} rate in ${source.url}`);
+  }
+  return rate;
+}
@@ -0,0 +1,233 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { formatUnits, parseUnits, type Hex } from 'viem';
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
+
+// Fixed-point scale for summing statement balances
+const STATEMENT_DECIMALS = 18;
+
+// Resolved lazily so .env (loaded in index.ts after imports) is respected
+function getAttestationsPath(): string {
+  return process.env.RESERVE_ATTESTATIONS_PATH || join(process.cwd(), 'data/reserve-attestations.jsonl');
+}
+
+export type ReserveInputSource = 'admin' | 'statement';
+
+/**
+ * Reserves recorded for a subject: a basket symbol, or `SYMBOL:ASSET` for one of its constituents
+ */
+export interface ReserveRecord {
+  subject: string;
+  // Decimal string
+  totalReserve: string;
+  currency: string;
+  // When the bank balance was observed
+  lastUpdated: string;
+  source: ReserveInputSource;
+  // Statement file name and row count for uploaded statements
+  statement?: { fileName?: string; rows: number };
+  submittedBy?: string;
+  submittedAt: string;
+}
+
+/**
+ * Served in the `{ totalReserve, lastUpdated }` shape the workflow reads, plus the
+ * attester's signature over attestationMessage()
+ */
+export interface SignedAttestation {
+  subject: string;
+  totalReserve: number;
+  currency: string;
+  lastUpdated: string;
+  source: ReserveInputSource;
+  attester: string;
+  signature: Hex;
+}
+
+export class AttestationError extends Error {
+  constructor(
+    public readonly code: 'ATTESTER_NOT_CONFIGURED' | 'INVALID_STATEMENT',
+    message: string,
+  ) {
+    super(message);
+    this.name = 'AttestationError';
+  }
+}
+
+export function attestationSubject(symbol: string, asset?: string): string {
+  return asset ? `${symbol}:${asset}` : symbol;
+}
+
+/**
+ * The EIP-191 message the attester signs; the workflow rebuilds it from the response
+ * to verify the signature, so the format must match its attestationMessage()
+ */
+export function attestationMessage(attestation: Pick<SignedAttestation, 'subject' | 'totalReserve' | 'currency' | 'lastUpdated'>): string {
+  return [
+    'BSKT reserve attestation',
+    `subject: ${attestation.subject}`,
+    `totalReserve: ${attestation.totalReserve}`,
+    `currency: ${attestation.currency}`,
+    `lastUpdated: ${attestation.lastUpdated}`,
+  ].join('\n');
+}
+
+let attester: PrivateKeyAccount | undefined;
+
+/**
+ * Signing key from ATTESTER_PRIVATE_KEY (created on first use so .env is loaded)
+ */
+export function getAttester(): PrivateKeyAccount {
+  if (!attester) {
+    const privateKey = process.env.ATTESTER_PRIVATE_KEY;
+    if (!privateKey || !/^0x[0-9a-fA-F]{64}$/.test(privateKey)) {
+      throw new AttestationError('ATTESTER_NOT_CONFIGURED', 'ATTESTER_PRIVATE_KEY is not set to a 32-byte hex key');
+    }
+    attester = privateKeyToAccount(privateKey as Hex);
+    console.log(`[Attester] Signing reserve attestations as ${attester.address}`);
+  }
+  return attester;
+}
+
+function readRecords(): ReserveRecord[] {
+  const attestationsPath = getAttestationsPath();
+  if (!existsSync(attestationsPath)) {
+    return [];
+  }
+
+  const records: ReserveRecord[] = [];
+  for (const line of readFileSync(attestationsPath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as ReserveRecord);
+    } catch {
+      console.error('[Attester] Skipping malformed line:', line.slice(0, 120));
+    }
+  }
+  return records;
+}
+
+/**
+ * Appends a reserve figure; the latest record per subject is the one attested
+ */
+export function recordReserves(record: Omit<ReserveRecord, 'submittedAt'>): ReserveRecord {
+  const recorded: ReserveRecord = { ...record, submittedAt: new Date().toISOString() };
+  const attestationsPath = getAttestationsPath();
+  mkdirSync(dirname(attestationsPath), { recursive: true });
+  appendFileSync(attestationsPath, JSON.stringify(recorded) + '\n', 'utf-8');
+  console.log(`[Attester] ${recorded.subject}: ${recorded.totalReserve} ${recorded.currency} as of ${recorded.lastUpdated} (${recorded.source}, by ${recorded.submittedBy ?? 'unknown'})`);
+  return recorded;
+}
+
+/**
+ * A subject's records, newest first
+ */
+export function getReserveRecords(subject: string, limit = 100): ReserveRecord[] {
+  return readRecords().filter(r => r.subject === subject).reverse().slice(0, limit);
+}
+
+export async function signAttestation(record: ReserveRecord): Promise<SignedAttestation> {
+  const account = getAttester();
+  const attestation = {
+    subject: record.subject,
+    // As a JSON number, since the workflow reads it with Number(); the message uses the same String() form
+    totalReserve: Number(record.totalReserve),
+    currency: record.currency,
+    lastUpdated: record.lastUpdated,
+  };
+
+  return {
+    ...attestation,
+    source: record.source,
+    attester: account.address,
+    signature: await account.signMessage({ message: attestationMessage(attestation) }),
+  };
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Totals a bank statement CSV. Needs a header row with a `balance` column; optional
+ * `currency` (every row must match `currency`) and `date` (the latest becomes lastUpdated)
+ * columns. Balances are plain decimals; thousands separators are not accepted.
+ */
+export function parseStatementCsv(csv: string, currency: string): { totalReserve: string; lastUpdated?: string; rows: number } {
+  const lines = csv.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length < 2) {
+    throw new AttestationError('INVALID_STATEMENT', 'Statement needs a header row and at least one balance row');
+  }
+
+  const header = splitCsvLine(lines[0]).map(h => h.toLowerCase());
+  const balanceColumn = header.indexOf('balance');
+  const currencyColumn = header.indexOf('currency');
+  const dateColumn = header.indexOf('date');
+  if (balanceColumn === -1) {
+    throw new AttestationError('INVALID_STATEMENT', 'Statement header has no "balance" column');
+  }
+
+  let total = 0n;
+  let latest: number | undefined;
+
+  lines.slice(1).forEach((line, index) => {
+    const row = splitCsvLine(line);
+    const lineNumber = index + 2;
+    if (row.length !== header.length) {
+      throw new AttestationError('INVALID_STATEMENT', `Line ${lineNumber}: expected ${header.length} columns, found ${row.length} (quote values containing commas)`);
+    }
+
+    const balance = row[balanceColumn] ?? '';
+    if (!/^\d+(\.\d+)?$/.test(balance)) {
+      throw new AttestationError('INVALID_STATEMENT', `Line ${lineNumber}: balance "${balance}" is not a plain decimal number`);
+    }
+    if ((balance.split('.')[1] ?? '').length > STATEMENT_DECIMALS) {
+      throw new AttestationError('INVALID_STATEMENT', `Line ${lineNumber}: balance has more than ${STATEMENT_DECIMALS} decimal places`);
+    }
+
+    if (currencyColumn !== -1 && row[currencyColumn] && row[currencyColumn].toUpperCase() !== currency) {
+      throw new AttestationError('INVALID_STATEMENT', `Line ${lineNumber}: balance is in ${row[currencyColumn]}, expected ${currency}`);
+    }
+
+    if (dateColumn !== -1 && row[dateColumn]) {
+      const at = Date.parse(row[dateColumn]);
+      if (Number.isNaN(at)) {
+        throw new AttestationError('INVALID_STATEMENT', `Line ${lineNumber}: date "${row[dateColumn]}" is not a valid date`);
+      }
+      latest = latest === undefined ? at : Math.max(latest, at);
+    }
+
+    total += parseUnits(balance, STATEMENT_DECIMALS);
+  });
+
+  return {
+    totalReserve: formatUnits(total, STATEMENT_DECIMALS),
+    lastUpdated: latest === undefined ? undefined : new Date(latest).toISOString(),
+    rows: lines.length - 1,
+  };
+}
@@ -0,0 +1,56 @@
+import { parseUnits, type Address } from 'viem';
+import { StablecoinABI } from '../config/abis.js';
+import { getPublicClient } from './chain.js';
+
+// decimals() never changes for a deployed token, so cache it per address
+const decimalsCache = new Map<string, number>();
+
+export class AmountError extends Error {
+  readonly code = 'INVALID_AMOUNT';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'AmountError';
+  }
+}
+
+/**
+ * Reads decimals() from a stablecoin (cached). Throws if the chain is unreachable.
+ */
+export async function getTokenDecimals(stablecoinAddress: string): Promise<number> {
+  const key = stablecoinAddress.toLowerCase();
+  const cached = decimalsCache.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const decimals = await getPublicClient().readContract({
+    address: stablecoinAddress as Address,
+    abi: StablecoinABI,
+    functionName: 'decimals',
+  });
+  decimalsCache.set(key, decimals);
+  return decimals;
+}
+
+/**
+ * Parses a decimal amount string into token units without floating point.
+ * Rejects zero and more fractional digits than the token supports (parseUnits alone would round).
+ */
+export function parseTokenAmount(amount: string, decimals: number): bigint {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(amount);
+  if (!match) {
+    throw new AmountError(`Amount "${amount}" is not a plain decimal number`);
+  }
+
+  const fraction = match[2] ?? '';
+  if (fraction.length > decimals) {
+    throw new AmountError(`Amount "${amount}" has ${fraction.length} fractional digits; the token supports ${decimals}`);
+  }
+
+  const units = parseUnits(amount, decimals);
+  if (units === 0n) {
+    throw new AmountError('Amount must be greater than zero');
+  }
+  return units;
+}
@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import { getAddress, isAddressEqual, type Address, type Hex } from 'viem';
+import { generateSiweNonce, parseSiweMessage, verifySiweMessage } from 'viem/siwe';
+import { StablecoinABI } from '../config/abis.js';
+import { getPublicClient } from './chain.js';
+
+const DEFAULT_SIWE_DOMAINS = ['localhost:3000'];
+// Sessions are replayed until they expire, so cap their lifetime (matches the frontend's sign-in)
+const MAX_SESSION_MS = 24 * 60 * 60 * 1000;
+// An issued nonce must be signed into a session within this window
+const NONCE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * A wallet proven by an EIP-4361 (Sign-In with Ethereum) message the frontend had it sign.
+ * The signed message itself is the session: it is replayed on each request until it expires.
+ */
+export interface WalletSession {
+  address: Address;
+  chainId: number;
+  expiresAt: string;
+}
+
+interface IssuedNonce {
+  expiresAt: number;
+  // SHA-256 of the session message that claimed the nonce; only that message may reuse it
+  messageHash?: string;
+}
+
+// In memory: after a restart wallets sign in again
+const issuedNonces = new Map<string, IssuedNonce>();
+
+export class WalletAuthError extends Error {
+  constructor(
+    public readonly code: 'INVALID_WALLET_SESSION' | 'WALLET_SESSION_EXPIRED',
+    message: string,
+  ) {
+    super(message);
+    this.name = 'WalletAuthError';
+  }
+}
+
+function getAllowedDomains(): string[] {
+  const configured = process.env.SIWE_DOMAINS?.split(',').map(d => d.trim()).filter(Boolean);
+  return configured && configured.length > 0 ? configured : DEFAULT_SIWE_DOMAINS;
+}
+
+/**
+ * Wallets allowed to request mints and redeems for any basket (MINT_OPERATORS, comma-separated)
+ */
+function getMintOperators(): string[] {
+  return (process.env.MINT_OPERATORS ?? '')
+    .split(',')
+    .map(a => a.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Issues a nonce for a SIWE message. It stays valid for NONCE_TTL_MS, or once
+ * claimed by a session, until that session expires.
+ */
+export function issueWalletNonce(): { nonce: string; expiresAt: string } {
+  const now = Date.now();
+  for (const [nonce, issued] of issuedNonces) {
+    if (issued.expiresAt <= now) issuedNonces.delete(nonce);
+  }
+
+  const nonce = generateSiweNonce();
+  issuedNonces.set(nonce, { expiresAt: now + NONCE_TTL_MS });
+  return { nonce, expiresAt: new Date(now + NONCE_TTL_MS).toISOString() };
+}
+
+/**
+ * Binds an issued nonce to the first session message signed with it; any other
+ * message carrying the same nonce is rejected
+ */
+function claimNonce(nonce: string, message: string, expiresAt: Date): void {
+  const issued = issuedNonces.get(nonce);
+  if (!issued || issued.expiresAt <= Date.now()) {
+    throw new WalletAuthError('INVALID_WALLET_SESSION', 'SIWE nonce was not issued by this backend or has expired');
+  }
+
+  const messageHash = crypto.createHash('sha256').update(message).digest('hex');
+  if (issued.messageHash === undefined) {
+    issuedNonces.set(nonce, { expiresAt: expiresAt.getTime(), messageHash });
+  } else if (issued.messageHash !== messageHash) {
+    throw new WalletAuthError('INVALID_WALLET_SESSION', 'SIWE nonce has already been used');
+  }
+}
+
+/**
+ * Verifies a SIWE message + signature: domain must be one of SIWE_DOMAINS, the
+ * chain must match the backend's RPC chain, the nonce must come from
+ * issueWalletNonce(), and the message must expire within MAX_SESSION_MS.
+ */
+export async function verifyWalletSession(message: string, signature: string): Promise<WalletSession> {
+  let parsed;
+  try {
+    parsed = parseSiweMessage(message);
+  } catch {
+    throw new WalletAuthError('INVALID_WALLET_SESSION', 'Wallet session is not a valid SIWE message');
+  }
+
+  if (!parsed.address || !parsed.domain || !parsed.chainId || !parsed.nonce) {
+    throw new WalletAuthError('INVALID_WALLET_SESSION', 'SIWE message is missing address, domain, chain ID or nonce');
+  }
+
+  if (!parsed.expirationTime) {
+    throw new WalletAuthError('INVALID_WALLET_SESSION', 'SIWE message must set an expiration time');
+  }
+
+  if (parsed.expirationTime.getTime() <= Date.now()) {
+    throw new WalletAuthError('WALLET_SESSION_EXPIRED', 'Wallet session has expired; sign in again');
+  }
+
+  if (parsed.expirationTime.getTime() > Date.now() + MAX_SESSION_MS) {
+    throw new WalletAuthError('INVALID_WALLET_SESSION', 'SIWE message must expire within 24 hours');
+  }
+
+  if (!getAllowedDomains().includes(parsed.domain)) {
+    throw new WalletAuthError('INVALID_WALLET_SESSION', `SIWE domain "${parsed.domain}" is not accepted`);
+  }
+
+  const client = getPublicClient();
+  if (client.chain && parsed.chainId !== client.chain.id) {
+    throw new WalletAuthError('INVALID_WALLET_SESSION', `SIWE chain ${parsed.chainId} does not match ${client.chain.id}`);
+  }
+
+  // Also covers smart contract wallets (ERC-1271 / ERC-6492), which is why this needs the RPC
+  const valid = await verifySiweMessage(client, { message, signature: signature as Hex });
+  if (!valid) {
+    throw new WalletAuthError('INVALID_WALLET_SESSION', 'Wallet signature does not match the SIWE message');
+  }
+
+  // Only after the signature checks out, so a forged message cannot use up a nonce
+  claimNonce(parsed.nonce, message, parsed.expirationTime);
+
+  return {
+    address: getAddress(parsed.address),
+    chainId: parsed.chainId,
+    expiresAt: parsed.expirationTime.toISOString(),
+  };
+}
+
+/**
+ * The basket's on-chain admin: the owner of its stablecoin
+ */
+export async function getBasketAdmin(stablecoinAddress: string): Promise<Address> {
+  return getPublicClient().readContract({
+    address: stablecoinAddress as Address,
+    abi: StablecoinABI,
+    functionName: 'owner',
+  });
+}
+
+export async function isBasketAdmin(wallet: Address, stablecoinAddress: string): Promise<boolean> {
+  return isAddressEqual(await getBasketAdmin(stablecoinAddress), wallet);
+}
+
+/**
+ * Operators from MINT_OPERATORS may mint for any basket; a basket's admin may mint for its own basket
+ */
+export async function isMintOperator(wallet: Address, stablecoinAddress: string): Promise<boolean> {
+  if (getMintOperators().includes(wallet.toLowerCase())) {
+    return true;
+  }
+  return isBasketAdmin(wallet, stablecoinAddress);
+}
@@ -0,0 +1,188 @@
+import { z } from 'zod';
+
+/**
+ * Result envelope emitted by the CRE workflow as a single log line:
+ *   BSKT_RESULT {"schema":"bskt.workflow.result","version":1,...}
+ * Must stay in sync with emitResult() in bank-stablecoin-por-ace-ccip-workflow/main.ts
+ */
+export const RESULT_MARKER = 'BSKT_RESULT';
+export const RESULT_SCHEMA = 'bskt.workflow.result';
+export const SUPPORTED_RESULT_VERSION = 1;
+
+// Decoded revert behind a failed report write (e.g. which ACE policy rejected and why)
+const workflowErrorDetailsSchema = z.object({
+  errorName: z.string().optional(),
+  policy: z.string().optional(),
+  reason: z.string().optional(),
+  txStatus: z.string().optional(),
+  rawMessage: z.string().optional(),
+});
+
+const workflowErrorSchema = z.object({
+  code: z.string().min(1),
+  message: z.string(),
+  attestationTimestamp: z.string().optional(),
+  details: workflowErrorDetailsSchema.optional(),
+});
+
+const txHashSchema = z.string().regex(/^0x[a-fA-F0-9]{64}$/);
+
+// Reserves below current supply: the backend pauses minting for the basket
+const pauseInstructionSchema = z.object({
+  reason: z.string(),
+  totalSupply: z.string(),
+  totalReserves: z.string(),
+});
+
+const workflowResultSchema = z.object({
+  schema: z.literal(RESULT_SCHEMA),
+  version: z.literal(SUPPORTED_RESULT_VERSION),
+  success: z.boolean(),
+  instructionType: z.enum(['MINT', 'REDEEM']),
+  transactionId: z.string().optional(),
+  beneficiary: z.string().optional(),
+  amount: z.string().optional(),
+  currency: z.string().optional(),
+  reportDelivered: z.boolean().optional(),
+  mintTransaction: txHashSchema.optional(),
+  redeemTransaction: txHashSchema.optional(),
+  ccipTransaction: txHashSchema.optional(),
+  message: z.string().optional(),
+  verificationNote: z.string().optional(),
+  pause: pauseInstructionSchema.optional(),
+  error: workflowErrorSchema.optional(),
+}).refine(r => r.success || r.error, { message: 'failed results must carry an error' });
+
+export type WorkflowResult = z.infer<typeof workflowResultSchema>;
+export type WorkflowErrorDetails = z.infer<typeof workflowErrorDetailsSchema>;
+
+export class WorkflowResultError extends Error {
+  constructor(
+    public readonly code: 'WORKFLOW_RESULT_MISSING' | 'WORKFLOW_RESULT_INVALID' | 'WORKFLOW_RESULT_UNSUPPORTED_VERSION',
+    message: string,
+  ) {
+    super(message);
+    this.name = 'WorkflowResultError';
+  }
+}
+
+/**
+ * Finds the last result envelope in simulator output and validates it.
+ * Simulator log prefixes before the marker are ignored.
+ */
+export function parseWorkflowResult(output: string): WorkflowResult {
+  const line = output
+    .split('\n')
+    .reverse()
+    .find(l => l.includes(`${RESULT_MARKER} {`));
+
+  if (!line) {
+    throw new WorkflowResultError('WORKFLOW_RESULT_MISSING', 'Workflow output did not contain a result envelope');
+  }
+
+  const json = line.slice(line.indexOf(`${RESULT_MARKER} {`) + RESULT_MARKER.length + 1).trim();
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new WorkflowResultError('WORKFLOW_RESULT_INVALID', 'Workflow result envelope is not valid JSON');
+  }
+
+  const version = (raw as { version?: unknown })?.version;
+  if (version !== SUPPORTED_RESULT_VERSION) {
+    throw new WorkflowResultError(
+      'WORKFLOW_RESULT_UNSUPPORTED_VERSION',
+      `Workflow result version ${String(version)} is not supported (expected ${SUPPORTED_RESULT_VERSION})`,
+    );
+  }
+
+  const parsed = workflowResultSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new WorkflowResultError(
+      'WORKFLOW_RESULT_INVALID',
+      `Workflow result envelope failed validation: ${issue.path.join('.') || 'envelope'} ${issue.message}`,
+    );
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Reserve ratio report the workflow's cron handler logs once per monitored basket:
+ *   BSKT_MONITOR {"schema":"bskt.workflow.monitor","version":1,...}
+ * Must stay in sync with emitMonitorReport() in bank-stablecoin-por-ace-ccip-workflow/main.ts
+ */
+export const MONITOR_MARKER = 'BSKT_MONITOR';
+export const MONITOR_SCHEMA = 'bskt.workflow.monitor';
+export const SUPPORTED_MONITOR_VERSION = 1;
+
+const decimalSchema = z.string().regex(/^\d+(\.\d+)?$/);
+
+const monitorReportSchema = z.object({
+  schema: z.literal(MONITOR_SCHEMA),
+  version: z.literal(SUPPORTED_MONITOR_VERSION),
+  symbol: z.string().min(1),
+  stablecoinAddress: z.string(),
+  currency: z.string(),
+  checkedAt: z.string(),
+  totalSupply: decimalSchema.optional(),
+  totalReserves: decimalSchema.optional(),
+  collateralRatio: z.number().nullable().optional(),
+  constituents: z.array(z.object({
+    asset: z.string(),
+    targetBps: z.number(),
+    actualBps: z.number(),
+    reserve: z.number(),
+    reserveCurrency: z.string(),
+    value: decimalSchema,
+    lastUpdated: z.string(),
+  })).optional(),
+  pause: pauseInstructionSchema.optional(),
+  error: workflowErrorSchema.optional(),
+}).refine(
+  r => r.error || (r.totalSupply !== undefined && r.totalReserves !== undefined && r.constituents),
+  { message: 'reports without an error must carry supply, reserves and constituents' },
+);
+
+export type MonitorReport = z.infer<typeof monitorReportSchema>;
+
+/**
+ * Collects every monitor report in simulator output, in the order they were logged.
+ * Output without any report yields an empty list.
+ */
+export function parseMonitorReports(output: string): MonitorReport[] {
+  const marker = `${MONITOR_MARKER} {`;
+
+  return output
+    .split('\n')
+    .filter(l => l.includes(marker))
+    .map(line => {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(line.slice(line.indexOf(marker) + MONITOR_MARKER.length + 1).trim());
+      } catch {
+        throw new WorkflowResultError('WORKFLOW_RESULT_INVALID', 'Workflow monitor report is not valid JSON');
+      }
+
+      const version = (raw as { version?: unknown })?.version;
+      if (version !== SUPPORTED_MONITOR_VERSION) {
+        throw new WorkflowResultError(
+          'WORKFLOW_RESULT_UNSUPPORTED_VERSION',
+          `Workflow monitor report version ${String(version)} is not supported (expected ${SUPPORTED_MONITOR_VERSION})`,
+        );
+      }
+
+      const parsed = monitorReportSchema.safeParse(raw);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new WorkflowResultError(
+          'WORKFLOW_RESULT_INVALID',
+          `Workflow monitor report failed validation: ${issue.path.join('.') || 'report'} ${issue.message}`,
+        );
+      }
+
+      return parsed.data;
+    });
+}
@@ -0,0 +1,181 @@
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import { dirname } from 'path';
+import {
+  assertExpectedVersion,
+  basketExists,
+  basketNotFound,
+  newRecord,
+  nextRecord,
+  normalizeRecord,
+} from './records.js';
+import {
+  BasketStoreError,
+  type BasketChangeAction,
+  type BasketConfig,
+  type BasketHistoryEntry,
+  type BasketRecord,
+  type BasketStore,
+  type BasketWriteOptions,
+} from './types.js';
+
+// Writes hold the lock for milliseconds; a lock older than this was left behind by a crashed process
+const STALE_LOCK_MS = 5_000;
+
+/**
+ * Registry kept in a JSON file keyed by symbol (the original data/baskets.json
+ * format), with history appended to a JSON-lines file next to it.
+ *
+ * Writes take an exclusive lock file so the server and the indexer script can
+ * share the registry, and replace the file atomically (write temp + rename).
+ * A write that finds the lock held by another process fails with REGISTRY_BUSY
+ * rather than blocking the event loop while it waits; use the SQLite store when
+ * several processes write often.
+ */
+export function createFileBasketStore(path: string, historyPath: string): BasketStore {
+  const lockPath = `${path}.lock`;
+
+  function read(): Record<string, BasketRecord> {
+    if (!existsSync(path)) {
+      return {};
+    }
+
+    const raw = JSON.parse(readFileSync(path, 'utf-8')) as Record<string, BasketConfig & Partial<BasketRecord>>;
+    return Object.fromEntries(Object.entries(raw).map(([symbol, basket]) => [symbol, normalizeRecord(basket)]));
+  }
+
+  function write(baskets: Record<string, BasketRecord>): void {
+    const tempPath = `${path}.${process.pid}.tmp`;
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(tempPath, JSON.stringify(baskets, null, 2) + '\n', 'utf-8');
+    renameSync(tempPath, path);
+  }
+
+  function appendHistory(basket: BasketRecord, action: BasketChangeAction, actor?: string): void {
+    const entry: BasketHistoryEntry = {
+      symbol: basket.symbol,
+      version: basket.version,
+      action,
+      basket,
+      ...(actor ? { actor } : {}),
+      at: basket.updatedAt,
+    };
+    appendFileSync(historyPath, JSON.stringify(entry) + '\n', 'utf-8');
+  }
+
+  function clearStaleLock(): void {
+    try {
+      if (Date.now() - statSync(lockPath).mtimeMs > STALE_LOCK_MS) {
+        console.warn(`[Basket Store] Removing stale lock ${lockPath}`);
+        unlinkSync(lockPath);
+      }
+    } catch {
+      // Lock was released between the open and the stat
+    }
+  }
+
+  function acquireLock(): number {
+    try {
+      return openSync(lockPath, 'wx');
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') throw error;
+    }
+
+    // Within this process writes are synchronous, so a held lock belongs to another process
+    clearStaleLock();
+    try {
+      return openSync(lockPath, 'wx');
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') throw error;
+      throw new BasketStoreError('REGISTRY_BUSY', 'Basket registry is being written by another process; retry shortly');
+    }
+  }
+
+  function withLock<T>(fn: () => T): T {
+    mkdirSync(dirname(lockPath), { recursive: true });
+    const fd = acquireLock();
+
+    try {
+      return fn();
+    } finally {
+      closeSync(fd);
+      unlinkSync(lockPath);
+    }
+  }
+
+  return {
+    get(symbol: string): BasketRecord | undefined {
+      return read()[symbol];
+    },
+
+    list(): BasketRecord[] {
+      return Object.values(read());
+    },
+
+    create(basket: BasketConfig, options: BasketWriteOptions = {}): BasketRecord {
+      return withLock(() => {
+        const baskets = read();
+        if (baskets[basket.symbol]) {
+          throw basketExists(basket.symbol);
+        }
+
+        const record = newRecord(basket, new Date().toISOString());
+        baskets[record.symbol] = record;
+        write(baskets);
+        appendHistory(record, 'create', options.actor);
+        return record;
+      });
+    },
+
+    update(
+      symbol: string,
+      change: (current: BasketRecord) => BasketConfig,
+      action: BasketChangeAction = 'update',
+      options: BasketWriteOptions = {},
+    ): BasketRecord {
+      return withLock(() => {
+        const baskets = read();
+        const current = baskets[symbol];
+        if (!current) {
+          throw basketNotFound(symbol);
+        }
+        assertExpectedVersion(current, options);
+
+        const record = nextRecord(current, change(current), new Date().toISOString());
+        baskets[symbol] = record;
+        write(baskets);
+        appendHistory(record, action, options.actor);
+        return record;
+      });
+    },
+
+    history(symbol: string): BasketHistoryEntry[] {
+      if (!existsSync(historyPath)) {
+        return [];
+      }
+
+      return readFileSync(historyPath, 'utf-8')
+        .split('\n')
+        .filter(line => line.trim())
+        .flatMap(line => {
+          try {
+            return [JSON.parse(line) as BasketHistoryEntry];
+          } catch {
+            console.error('[Basket Store] Skipping malformed history line:', line.slice(0, 120));
+            return [];
+          }
+        })
+        .filter(entry => entry.symbol === symbol);
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import { join } from 'path';
+import { createFileBasketStore } from './file-basket-store.js';
+import { createSqliteBasketStore } from './sqlite-basket-store.js';
+import type { BasketStore } from './types.js';
+
+export * from './types.js';
+
+let store: BasketStore | undefined;
+
+/**
+ * Basket registry selected by BASKET_STORE: `file` (default, data/baskets.json)
+ * or `sqlite` (BASKET_DB_PATH, default data/baskets.db). The SQLite store is
+ * seeded from the JSON registry the first time it is opened.
+ * Created on first use so .env (loaded in index.ts after imports) is respected.
+ */
+export function getBasketStore(): BasketStore {
+  if (store) {
+    return store;
+  }
+
+  const basketsPath = process.env.BASKETS_PATH || join(process.cwd(), 'data/baskets.json');
+  const fileStore = createFileBasketStore(basketsPath, basketsPath.replace(/\.json$/, '') + '-history.jsonl');
+
+  if (process.env.BASKET_STORE === 'sqlite') {
+    const dbPath = process.env.BASKET_DB_PATH || join(process.cwd(), 'data/baskets.db');
+    store = createSqliteBasketStore(dbPath, fileStore.list());
+    console.log(`[Basket Store] Using SQLite registry ${dbPath}`);
+  } else {
+    store = fileStore;
+    console.log(`[Basket Store] Using file registry ${basketsPath}`);
+  }
+
+  return store;
+}
@@ -0,0 +1,52 @@
+import { BasketStoreError, type BasketConfig, type BasketRecord, type BasketWriteOptions } from './types.js';
+
+/**
+ * Fills in fields missing from records written before baskets were versioned
+ */
+export function normalizeRecord(raw: BasketConfig & Partial<BasketRecord>): BasketRecord {
+  const updatedAt = raw.updatedAt ?? raw.createdAt ?? new Date(0).toISOString();
+  return {
+    ...raw,
+    status: raw.status ?? 'active',
+    version: raw.version ?? 1,
+    createdAt: raw.createdAt ?? updatedAt,
+    updatedAt,
+  };
+}
+
+export function newRecord(basket: BasketConfig, now: string): BasketRecord {
+  return { ...basket, status: basket.status ?? 'active', version: 1, createdAt: now, updatedAt: now };
+}
+
+/**
+ * Builds the next version of a record. Symbol, version and timestamps are
+ * owned by the store and cannot be changed by the caller.
+ */
+export function nextRecord(current: BasketRecord, changed: BasketConfig, now: string): BasketRecord {
+  const { version: _version, createdAt: _createdAt, updatedAt: _updatedAt, ...fields } = changed as Partial<BasketRecord>;
+  return {
+    ...(fields as BasketConfig),
+    symbol: current.symbol,
+    status: changed.status ?? current.status,
+    version: current.version + 1,
+    createdAt: current.createdAt,
+    updatedAt: now,
+  };
+}
+
+export function assertExpectedVersion(current: BasketRecord, options: BasketWriteOptions): void {
+  if (options.expectedVersion !== undefined && options.expectedVersion !== current.version) {
+    throw new BasketStoreError(
+      'VERSION_CONFLICT',
+      `Basket "${current.symbol}" is at version ${current.version}, not ${options.expectedVersion}`,
+    );
+  }
+}
+
+export function basketExists(symbol: string): BasketStoreError {
+  return new BasketStoreError('BASKET_EXISTS', `Basket with symbol "${symbol}" already exists`);
+}
+
+export function basketNotFound(symbol: string): BasketStoreError {
+  return new BasketStoreError('BASKET_NOT_FOUND', `Basket "${symbol}" not found`);
+}
@@ -0,0 +1,155 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import {
+  assertExpectedVersion,
+  basketExists,
+  basketNotFound,
+  newRecord,
+  nextRecord,
+} from './records.js';
+import type {
+  BasketChangeAction,
+  BasketConfig,
+  BasketHistoryEntry,
+  BasketRecord,
+  BasketStore,
+  BasketWriteOptions,
+} from './types.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS baskets (
+    symbol TEXT PRIMARY KEY,
+    version INTEGER NOT NULL,
+    record TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS basket_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    symbol TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    action TEXT NOT NULL,
+    record TEXT NOT NULL,
+    actor TEXT,
+    at TEXT NOT NULL,
+    UNIQUE (symbol, version)
+  );
+`;
+
+interface HistoryRow {
+  symbol: string;
+  version: number;
+  action: BasketChangeAction;
+  record: string;
+  actor: string | null;
+  at: string;
+}
+
+/**
+ * Registry in a SQLite database. Records are stored as JSON next to the columns
+ * used for lookups; each write and its history row share one transaction.
+ * On first use an empty database is seeded from `seed` (the JSON registry).
+ */
+export function createSqliteBasketStore(path: string, seed: BasketRecord[] = []): BasketStore {
+  mkdirSync(dirname(path), { recursive: true });
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.pragma('busy_timeout = 5000');
+  db.exec(SCHEMA);
+
+  const selectOne = db.prepare<[string], { record: string }>('SELECT record FROM baskets WHERE symbol = ?');
+  const selectAll = db.prepare<[], { record: string }>('SELECT record FROM baskets ORDER BY symbol');
+  const insert = db.prepare('INSERT INTO baskets (symbol, version, record, updated_at) VALUES (?, ?, ?, ?)');
+  const replace = db.prepare('UPDATE baskets SET version = ?, record = ?, updated_at = ? WHERE symbol = ?');
+  const insertHistory = db.prepare(
+    'INSERT INTO basket_history (symbol, version, action, record, actor, at) VALUES (?, ?, ?, ?, ?, ?)',
+  );
+  const selectHistory = db.prepare<[string], HistoryRow>(
+    'SELECT symbol, version, action, record, actor, at FROM basket_history WHERE symbol = ? ORDER BY version',
+  );
+
+  function get(symbol: string): BasketRecord | undefined {
+    const row = selectOne.get(symbol);
+    return row ? (JSON.parse(row.record) as BasketRecord) : undefined;
+  }
+
+  function recordHistory(record: BasketRecord, action: BasketChangeAction, actor?: string): void {
+    insertHistory.run(record.symbol, record.version, action, JSON.stringify(record), actor ?? null, record.updatedAt);
+  }
+
+  // IMMEDIATE takes the write lock up front so concurrent writers queue instead of failing mid-transaction
+  const create = db.transaction((basket: BasketConfig, options: BasketWriteOptions) => {
+    if (get(basket.symbol)) {
+      throw basketExists(basket.symbol);
+    }
+
+    const record = newRecord(basket, new Date().toISOString());
+    insert.run(record.symbol, record.version, JSON.stringify(record), record.updatedAt);
+    recordHistory(record, 'create', options.actor);
+    return record;
+  });
+
+  const update = db.transaction((
+    symbol: string,
+    change: (current: BasketRecord) => BasketConfig,
+    action: BasketChangeAction,
+    options: BasketWriteOptions,
+  ) => {
+    const current = get(symbol);
+    if (!current) {
+      throw basketNotFound(symbol);
+    }
+    assertExpectedVersion(current, options);
+
+    const record = nextRecord(current, change(current), new Date().toISOString());
+    replace.run(record.version, JSON.stringify(record), record.updatedAt, symbol);
+    recordHistory(record, action, options.actor);
+    return record;
+  });
+
+  const importSeed = db.transaction((records: BasketRecord[]) => {
+    for (const record of records) {
+      insert.run(record.symbol, record.version, JSON.stringify(record), record.updatedAt);
+      recordHistory(record, 'create', 'import');
+    }
+  });
+
+  const { count } = db.prepare<[], { count: number }>('SELECT COUNT(*) AS count FROM baskets').get()!;
+  if (count === 0 && seed.length > 0) {
+    importSeed.immediate(seed);
+    console.log(`[Basket Store] Imported ${seed.length} baskets into ${path}`);
+  }
+
+  return {
+    get,
+
+    list(): BasketRecord[] {
+      return selectAll.all().map(row => JSON.parse(row.record) as BasketRecord);
+    },
+
+    create(basket: BasketConfig, options: BasketWriteOptions = {}): BasketRecord {
+      return create.immediate(basket, options);
+    },
+
+    update(
+      symbol: string,
+      change: (current: BasketRecord) => BasketConfig,
+      action: BasketChangeAction = 'update',
+      options: BasketWriteOptions = {},
+    ): BasketRecord {
+      return update.immediate(symbol, change, action, options);
+    },
+
+    history(symbol: string): BasketHistoryEntry[] {
+      return selectHistory.all(symbol).map(row => ({
+        symbol: row.symbol,
+        version: row.version,
+        action: row.action,
+        basket: JSON.parse(row.record) as BasketRecord,
+        ...(row.actor ? { actor: row.actor } : {}),
+        at: row.at,
+      }));
+    },
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Where the workflow fetches this basket's reserve attestation (PoR)
+ * Mirrors reserveSourceSchema in the workflow's main.ts
+ */
+export interface ReserveSource {
+  url: string;
+  jsonPath?: string;
+  timestampPath?: string;
+  currency?: string;
+  maxStalenessSeconds?: number;
+  // Address whose signature the workflow requires on the response (see routes/attestations.ts)
+  attester?: string;
+}
+
+/**
+ * A reserve asset backing the basket and its target share of supply
+ * Mirrors constituentSchema in the workflow's main.ts
+ */
+export interface BasketConstituent {
+  // Asset identifier, e.g. "USD-TBILLS"
+  asset: string;
+  // Target weight in basis points; a basket's constituents sum to 10000
+  weightBps: number;
+  reserveSource: ReserveSource;
+}
+
+/**
+ * active: accepts mint/redeem requests (the default when unset)
+ * disabled: temporarily rejects requests
+ * paused: reserves fell below supply; mints are rejected until an admin unpauses, redeems still run
+ * archived: removed from listings; kept so past ledger entries still resolve
+ */
+export type BasketStatus = 'active' | 'disabled' | 'paused' | 'archived';
+
+/**
+ * Why the workflow paused a basket
+ */
+export interface BasketPause {
+  reason: string;
+  // Decimal strings in the basket's currency, as reported by the workflow
+  totalSupply: string;
+  totalReserves: string;
+  // The mint's PoR check or the scheduled PoR monitor
+  source: 'mint' | 'monitor';
+  // Mint request whose PoR check reported it
+  transactionId?: string;
+  at: string;
+}
+
+/**
+ * The admin action that lifted the last pause
+ */
+export interface BasketUnpause {
+  reason: string;
+  by?: string;
+  at: string;
+  pause?: BasketPause;
+}
+
+export interface BasketConfig {
+  name: string;
+  symbol: string;
+  stablecoinAddress: string;
+  mintingConsumerAddress: string;
+  // ISO 4217 code the token is denominated in (USD when unset)
+  currency?: string;
+  reserveSource?: ReserveSource;
+  // Multi-asset composition; when set, the workflow checks each constituent instead of reserveSource
+  constituents?: BasketConstituent[];
+  creationTxHash?: string;
+  status?: BasketStatus;
+  // Set while status is paused
+  pause?: BasketPause;
+  lastUnpause?: BasketUnpause;
+}
+
+/**
+ * A stored basket. version starts at 1 and increases by one on every write.
+ */
+export interface BasketRecord extends BasketConfig {
+  status: BasketStatus;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type BasketChangeAction = 'create' | 'update' | 'archive' | 'pause' | 'unpause';
+
+export interface BasketHistoryEntry {
+  symbol: string;
+  version: number;
+  action: BasketChangeAction;
+  basket: BasketRecord;
+  actor?: string;
+  at: string;
+}
+
+export interface BasketWriteOptions {
+  // Who made the change (API client, indexer, ...), recorded in history
+  actor?: string;
+  // Reject the write with VERSION_CONFLICT unless the stored version matches
+  expectedVersion?: number;
+}
+
+export class BasketStoreError extends Error {
+  constructor(
+    public readonly code: 'BASKET_EXISTS' | 'BASKET_NOT_FOUND' | 'VERSION_CONFLICT' | 'BASKET_PAUSED' | 'REGISTRY_BUSY',
+    message: string,
+  ) {
+    super(message);
+    this.name = 'BasketStoreError';
+  }
+}
+
+/**
+ * Basket registry storage. Every write is atomic: create/update either fully
+ * apply (record + history entry) or throw.
+ */
+export interface BasketStore {
+  get(symbol: string): BasketRecord | undefined;
+  list(): BasketRecord[];
+  create(basket: BasketConfig, options?: BasketWriteOptions): BasketRecord;
+  /**
+   * Applies `change` to the current record under the store's lock, so
+   * read-modify-write cycles from concurrent requests cannot interleave
+   */
+  update(
+    symbol: string,
+    change: (current: BasketRecord) => BasketConfig,
+    action?: BasketChangeAction,
+    options?: BasketWriteOptions,
+  ): BasketRecord;
+  history(symbol: string): BasketHistoryEntry[];
+}
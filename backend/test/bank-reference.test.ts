@@ -0,0 +1,21 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { generateBankReference } from '../src/services/cre-workflow.js';
+import { stringToBytes32 } from '../../bank-stablecoin-por-ace-ccip-workflow/bank-reference.ts';
+
+test('workflow report carries the bank reference the backend matches events against', () => {
+  const bankReference = generateBankReference('BSKT20261019A1B2C3D4');
+
+  assert.match(bankReference, /^0x[0-9a-f]{64}$/);
+  assert.equal(stringToBytes32(bankReference), bankReference);
+});
+
+test('workflow keeps 32-byte hex references regardless of case', () => {
+  const bankReference = generateBankReference('BSKT20261019A1B2C3D4');
+
+  assert.equal(stringToBytes32(bankReference.toUpperCase().replace('0X', '0x')), bankReference);
+});
+
+test('workflow still encodes plain-text references as zero-padded ASCII', () => {
+  assert.equal(stringToBytes32('CREBNK20251029001'), generateBankReference('CREBNK20251029001'));
+});
@@ -0,0 +1,148 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, test } from 'node:test';
+import { encodeAbiParameters, encodeEventTopics, numberToHex, pad, type Address } from 'viem';
+import { BasketFactoryABI } from '../src/config/abis.js';
+import { runIndexerOnce } from '../src/services/basket-indexer.js';
+import { getBasketStore } from '../src/storage/index.js';
+
+const FACTORY = '0x00000000000000000000000000000000000000fa';
+const ADMIN = '0x00000000000000000000000000000000000000ad';
+
+const dir = mkdtempSync(join(tmpdir(), 'basket-indexer-'));
+// Read on first use by the store, the chain client and the indexer
+process.env.BASKETS_PATH = join(dir, 'baskets.json');
+process.env.INDEXER_CHECKPOINT_PATH = join(dir, 'indexer-checkpoint.json');
+process.env.BASKET_FACTORY_ADDRESS = FACTORY;
+process.env.INDEXER_BLOCK_RANGE = '100';
+process.env.INDEXER_CONFIRMATIONS = '2';
+
+interface CreatedEvent {
+  block: number;
+  stablecoin: Address;
+  mintingConsumer: Address;
+  name: string;
+  symbol: string;
+}
+
+// Stand-in for the RPC endpoint: answers the three calls the indexer makes. The head stays
+// fixed because viem caches eth_blockNumber between runs
+const HEAD = 300;
+let events: CreatedEvent[] = [];
+let server: Server;
+
+function toLog(event: CreatedEvent, index: number) {
+  return {
+    address: FACTORY,
+    topics: encodeEventTopics({
+      abi: BasketFactoryABI,
+      eventName: 'BasketCreated',
+      args: { creator: ADMIN, admin: ADMIN, stablecoin: event.stablecoin },
+    }),
+    data: encodeAbiParameters(
+      [{ type: 'address' }, { type: 'string' }, { type: 'string' }],
+      [event.mintingConsumer, event.name, event.symbol],
+    ),
+    blockNumber: numberToHex(event.block),
+    blockHash: pad(numberToHex(event.block)),
+    transactionHash: pad(numberToHex(index + 1)),
+    transactionIndex: '0x0',
+    logIndex: numberToHex(index),
+    removed: false,
+  };
+}
+
+function rpcResult(method: string, params: any[]): unknown {
+  switch (method) {
+    case 'eth_chainId':
+      return numberToHex(11155111);
+    case 'eth_blockNumber':
+      return numberToHex(HEAD);
+    case 'eth_getLogs': {
+      const from = Number(params[0].fromBlock);
+      const to = Number(params[0].toBlock);
+      return events.flatMap((event, i) => (event.block >= from && event.block <= to ? [toLog(event, i)] : []));
+    }
+    default:
+      throw new Error(`Unexpected RPC call ${method}`);
+  }
+}
+
+before(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const { id, method, params } = JSON.parse(body);
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ jsonrpc: '2.0', id, result: rpcResult(method, params) }));
+    });
+  });
+  server.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  process.env.RPC_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+test('refuses to scan from genesis without a checkpoint or INDEXER_START_BLOCK', async () => {
+  await assert.rejects(runIndexerOnce(), /INDEXER_START_BLOCK must be set/);
+});
+
+test('indexes new baskets as disabled, one checkpointed range at a time', async () => {
+  process.env.INDEXER_START_BLOCK = '100';
+  process.env.INDEXER_MAX_RANGES_PER_RUN = '1';
+  events = [
+    { block: 120, stablecoin: '0x0000000000000000000000000000000000000a01', mintingConsumer: '0x0000000000000000000000000000000000000c01', name: 'Digital USD', symbol: 'DUSD' },
+    { block: 249, stablecoin: '0x0000000000000000000000000000000000000a02', mintingConsumer: '0x0000000000000000000000000000000000000c02', name: 'Late', symbol: 'LATE' },
+  ];
+
+  const run = await runIndexerOnce();
+
+  assert.equal(run.fromBlock, 100n);
+  assert.equal(run.toBlock, 199n);
+  assert.equal(run.caughtUp, false);
+  assert.deepEqual(run.created, ['DUSD']);
+
+  const basket = getBasketStore().get('DUSD');
+  assert.equal(basket?.status, 'disabled');
+  assert.equal(basket?.creationTxHash, pad(numberToHex(1)));
+  assert.equal(getBasketStore().history('DUSD')[0].actor, 'indexer');
+  assert.equal(getBasketStore().get('LATE'), undefined);
+});
+
+test('resumes from the checkpoint, fills in provenance and skips symbols taken by another token', async () => {
+  getBasketStore().create({
+    name: 'Published',
+    symbol: 'PUB',
+    stablecoinAddress: '0x0000000000000000000000000000000000000A03',
+    mintingConsumerAddress: '0x0000000000000000000000000000000000000c03',
+  });
+  delete process.env.INDEXER_MAX_RANGES_PER_RUN;
+  events.push(
+    { block: 260, stablecoin: '0x0000000000000000000000000000000000000a03', mintingConsumer: '0x0000000000000000000000000000000000000c03', name: 'Published', symbol: 'PUB' },
+    { block: 270, stablecoin: '0x0000000000000000000000000000000000000a04', mintingConsumer: '0x0000000000000000000000000000000000000c04', name: 'Copycat', symbol: 'DUSD' },
+    // Beyond the confirmed head (300 - 2 confirmations)
+    { block: 299, stablecoin: '0x0000000000000000000000000000000000000a05', mintingConsumer: '0x0000000000000000000000000000000000000c05', name: 'Unconfirmed', symbol: 'NEW' },
+  );
+
+  const run = await runIndexerOnce();
+
+  assert.equal(run.fromBlock, 200n);
+  assert.equal(run.toBlock, 298n);
+  assert.equal(run.caughtUp, true);
+  assert.deepEqual(run.created, ['LATE']);
+  assert.deepEqual(run.updated, ['PUB']);
+  assert.deepEqual(run.skipped, ['DUSD']);
+  assert.equal(getBasketStore().get('PUB')?.status, 'active');
+  assert.equal(getBasketStore().get('PUB')?.creationTxHash, pad(numberToHex(3)));
+  assert.equal(getBasketStore().get('DUSD')?.stablecoinAddress, '0x0000000000000000000000000000000000000a01');
+  assert.equal(getBasketStore().get('NEW'), undefined);
+});
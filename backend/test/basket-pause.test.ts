@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, test } from 'node:test';
+import { getBasketStore, type BasketConfig } from '../src/storage/index.js';
+import { pauseBasket, unpauseBasket, type PauseInstruction } from '../src/services/basket-pause.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'basket-pause-'));
+// getBasketStore() reads this on first use
+process.env.BASKETS_PATH = join(dir, 'baskets.json');
+
+const STABLECOIN = '0x1111111111111111111111111111111111111111';
+
+const instruction: PauseInstruction = {
+  reason: 'Reserves 900 below supply 1000',
+  totalSupply: '1000',
+  totalReserves: '900',
+};
+
+function createBasket(symbol: string, status: BasketConfig['status'] = 'active'): void {
+  getBasketStore().create({
+    name: symbol,
+    symbol,
+    stablecoinAddress: STABLECOIN,
+    mintingConsumerAddress: '0x2222222222222222222222222222222222222222',
+    status,
+  });
+}
+
+before(() => {
+  createBasket('DUSD');
+  createBasket('OTHER');
+  createBasket('OFF', 'disabled');
+});
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+test('pauses an active basket and records the instruction', () => {
+  const paused = pauseBasket('DUSD', instruction, {
+    source: 'mint',
+    transactionId: 'BSKT20261019A1B2C3D4',
+    stablecoinAddress: STABLECOIN.toUpperCase().replace('0X', '0x'),
+  });
+
+  assert.equal(paused?.status, 'paused');
+  assert.equal(paused?.pause?.totalReserves, '900');
+  assert.equal(paused?.pause?.transactionId, 'BSKT20261019A1B2C3D4');
+  assert.equal(getBasketStore().history('DUSD').at(-1)?.action, 'pause');
+
+  // Already paused: nothing changes
+  assert.equal(pauseBasket('DUSD', instruction, { source: 'monitor', stablecoinAddress: STABLECOIN }), undefined);
+});
+
+test('leaves baskets alone when the pause is for another token or the basket is not active', () => {
+  assert.equal(pauseBasket('OTHER', instruction, { source: 'monitor', stablecoinAddress: '0x3333333333333333333333333333333333333333' }), undefined);
+  assert.equal(getBasketStore().get('OTHER')?.status, 'active');
+
+  assert.equal(pauseBasket('OFF', instruction, { source: 'monitor', stablecoinAddress: STABLECOIN }), undefined);
+  assert.equal(getBasketStore().get('OFF')?.status, 'disabled');
+
+  assert.equal(pauseBasket('MISSING', instruction, { source: 'monitor', stablecoinAddress: STABLECOIN }), undefined);
+});
+
+test('unpausing reactivates the basket and keeps the lifted pause for the audit trail', () => {
+  const version = getBasketStore().get('DUSD')!.version;
+  const basket = unpauseBasket('DUSD', 'Reserves topped up', { actor: 'admin', expectedVersion: version });
+
+  assert.equal(basket.status, 'active');
+  assert.equal(basket.pause, undefined);
+  assert.equal(basket.lastUnpause?.reason, 'Reserves topped up');
+  assert.equal(basket.lastUnpause?.by, 'admin');
+  assert.equal(basket.lastUnpause?.pause?.reason, instruction.reason);
+  assert.equal(getBasketStore().history('DUSD').at(-1)?.action, 'unpause');
+});
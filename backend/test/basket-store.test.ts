@@ -0,0 +1,142 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from 'node:fs';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import express from 'express';
+import { createFileBasketStore } from '../src/storage/file-basket-store.js';
+import { createSqliteBasketStore } from '../src/storage/sqlite-basket-store.js';
+import { BasketStoreError, getBasketStore, type BasketConfig, type BasketStore } from '../src/storage/index.js';
+import { basketsRouter } from '../src/routes/baskets.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'basket-store-'));
+// getBasketStore() reads this on first use
+process.env.BASKETS_PATH = join(dir, 'route-baskets.json');
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const basket: BasketConfig = {
+  name: 'Digital USD',
+  symbol: 'DUSD',
+  stablecoinAddress: '0x1111111111111111111111111111111111111111',
+  mintingConsumerAddress: '0x2222222222222222222222222222222222222222',
+};
+
+function storeError(code: BasketStoreError['code']) {
+  return (error: unknown) => error instanceof BasketStoreError && error.code === code;
+}
+
+const stores: Array<[string, () => BasketStore]> = [
+  ['file', () => {
+    const path = join(dir, `baskets-${Math.random().toString(16).slice(2)}.json`);
+    return createFileBasketStore(path, path.replace(/\.json$/, '-history.jsonl'));
+  }],
+  ['sqlite', () => createSqliteBasketStore(join(dir, `baskets-${Math.random().toString(16).slice(2)}.db`))],
+];
+
+for (const [kind, createStore] of stores) {
+  describe(`${kind} basket store`, () => {
+    test('versions every write and records it in history', () => {
+      const store = createStore();
+      const created = store.create(basket, { actor: 'publisher' });
+      assert.equal(created.version, 1);
+      assert.equal(created.status, 'active');
+
+      const renamed = store.update('DUSD', current => ({ ...current, name: 'Digital Dollar' }), 'update', { actor: 'admin' });
+      assert.equal(renamed.version, 2);
+      assert.equal(store.get('DUSD')?.name, 'Digital Dollar');
+
+      assert.deepEqual(
+        store.history('DUSD').map(entry => [entry.version, entry.action, entry.actor]),
+        [[1, 'create', 'publisher'], [2, 'update', 'admin']],
+      );
+    });
+
+    test('rejects a write against a stale expected version', () => {
+      const store = createStore();
+      store.create(basket);
+      store.update('DUSD', current => ({ ...current, name: 'Renamed' }), 'update', { expectedVersion: 1 });
+
+      assert.throws(
+        () => store.update('DUSD', current => ({ ...current, name: 'Lost update' }), 'update', { expectedVersion: 1 }),
+        storeError('VERSION_CONFLICT'),
+      );
+      assert.equal(store.get('DUSD')?.name, 'Renamed');
+    });
+
+    test('rejects duplicate symbols and updates to unknown baskets', () => {
+      const store = createStore();
+      store.create(basket);
+
+      assert.throws(() => store.create(basket), storeError('BASKET_EXISTS'));
+      assert.throws(() => store.update('NOPE', current => current), storeError('BASKET_NOT_FOUND'));
+    });
+  });
+}
+
+test('file store fails fast with REGISTRY_BUSY while another process holds the lock', () => {
+  const path = join(dir, 'locked-baskets.json');
+  const store = createFileBasketStore(path, join(dir, 'locked-history.jsonl'));
+  writeFileSync(`${path}.lock`, '');
+
+  assert.throws(() => store.create(basket), storeError('REGISTRY_BUSY'));
+  assert.equal(store.get('DUSD'), undefined);
+
+  // A lock left behind by a crashed process is cleared
+  const longAgo = new Date(Date.now() - 60_000);
+  utimesSync(`${path}.lock`, longAgo, longAgo);
+  assert.equal(store.create(basket).version, 1);
+});
+
+describe('If-Match on PATCH /baskets/:symbol', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    getBasketStore().create(basket);
+
+    const app = express();
+    app.use(express.json());
+    app.use('/baskets', (req, _res, next) => {
+      req.apiClient = { clientId: 'publisher', clientName: 'Publisher', keyId: 'key_1', scopes: ['publish'] };
+      next();
+    }, basketsRouter);
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  function patch(body: object, ifMatch?: string) {
+    return fetch(`${baseUrl}/baskets/DUSD`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', ...(ifMatch ? { 'If-Match': ifMatch } : {}) },
+      body: JSON.stringify(body),
+    });
+  }
+
+  test('applies the write when the version matches and returns the new ETag', async () => {
+    const response = await patch({ name: 'Digital Dollar' }, '"1"');
+
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('etag'), '"2"');
+    assert.equal((await response.json()).basket.version, 2);
+  });
+
+  test('answers 409 VERSION_CONFLICT for a stale version and 400 for a malformed one', async () => {
+    const stale = await patch({ name: 'Lost update' }, '"1"');
+    assert.equal(stale.status, 409);
+    assert.equal((await stale.json()).error, 'VERSION_CONFLICT');
+
+    const malformed = await patch({ name: 'Lost update' }, 'W/"abc"');
+    assert.equal(malformed.status, 400);
+  });
+});
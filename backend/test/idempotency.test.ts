@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, test } from 'node:test';
+import express from 'express';
+import { idempotency } from '../src/middleware/idempotency.js';
+
+let dir: string;
+let server: Server;
+let baseUrl: string;
+let calls = 0;
+
+before(async () => {
+  dir = mkdtempSync(join(tmpdir(), 'idempotency-'));
+  process.env.IDEMPOTENCY_STORE_PATH = join(dir, 'idempotency-keys.json');
+
+  const app = express();
+  app.use(express.json());
+  app.use('/mint', idempotency, (req, res) => {
+    calls++;
+    res.status(req.body.status ?? 202).json({ success: true, call: calls });
+  });
+
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function post(key: string | undefined, body: object) {
+  return fetch(`${baseUrl}/mint`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(key !== undefined ? { 'Idempotency-Key': key } : {}) },
+    body: JSON.stringify(body),
+  });
+}
+
+test('replays the stored response for a repeated key', async () => {
+  const first = await post('replay-1', { amount: '10' });
+  const firstBody = await first.json();
+  const second = await post('replay-1', { amount: '10' });
+
+  assert.equal(second.status, 202);
+  assert.equal(second.headers.get('idempotent-replayed'), 'true');
+  assert.deepEqual(await second.json(), firstBody);
+});
+
+test('rejects a key reused with a different body', async () => {
+  await post('reused-1', { amount: '10' });
+  const response = await post('reused-1', { amount: '11' });
+
+  assert.equal(response.status, 422);
+  assert.equal((await response.json()).error, 'IDEMPOTENCY_KEY_REUSED');
+});
+
+test('does not store 409, 429 or server errors, so the same key can be retried', async () => {
+  for (const status of [409, 429, 500]) {
+    const key = `retryable-${status}`;
+    const failed = await (await post(key, { status })).json();
+    const retried = await post(key, { status });
+
+    assert.equal(retried.headers.get('idempotent-replayed'), null);
+    assert.notEqual((await retried.json()).call, failed.call);
+  }
+});
+
+test('passes requests without a key through and rejects malformed keys', async () => {
+  const callsBefore = calls;
+  await post(undefined, { amount: '10' });
+  await post(undefined, { amount: '10' });
+  assert.equal(calls, callsBefore + 2);
+
+  const invalid = await post('has space', { amount: '10' });
+  assert.equal(invalid.status, 400);
+  assert.equal((await invalid.json()).error, 'INVALID_IDEMPOTENCY_KEY');
+});
@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, test } from 'node:test';
+import { checkMintQuota } from '../src/services/mint-quotas.js';
+import type { LedgerEntry, MintStatus } from '../src/services/mint-ledger.js';
+
+const HOUR = 3_600_000;
+const NOW = Date.parse('2026-10-19T12:00:00.000Z');
+const ALICE = '0x1111111111111111111111111111111111111111';
+const BOB = '0x2222222222222222222222222222222222222222';
+
+let dir: string;
+
+function writeLedger(mints: Array<{ beneficiary: string; amount: string; hoursAgo: number; status?: MintStatus; instruction?: 'MINT' | 'REDEEM' }>): void {
+  const lines = mints.map((mint, i): LedgerEntry => {
+    const createdAt = new Date(NOW - mint.hoursAgo * HOUR).toISOString();
+    return {
+      transactionId: `TX${i}`,
+      instruction: mint.instruction ?? 'MINT',
+      status: mint.status ?? 'confirmed',
+      basket: 'DUSD',
+      beneficiary: mint.beneficiary,
+      amount: mint.amount,
+      stablecoinAddress: '0x3333333333333333333333333333333333333333',
+      mintingConsumerAddress: '0x4444444444444444444444444444444444444444',
+      createdAt,
+      updatedAt: createdAt,
+      history: [],
+    };
+  });
+  writeFileSync(process.env.MINT_LEDGER_PATH!, lines.map(line => JSON.stringify(line)).join('\n') + '\n');
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'mint-quotas-'));
+  process.env.MINT_LEDGER_PATH = join(dir, 'mint-ledger.jsonl');
+  delete process.env.MINT_QUOTA_PER_BENEFICIARY;
+  delete process.env.MINT_QUOTA_PER_BASKET;
+  delete process.env.MINT_QUOTA_WINDOW_HOURS;
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+test('no quotas configured means unlimited', () => {
+  writeLedger([{ beneficiary: ALICE, amount: '1000000', hoursAgo: 1 }]);
+
+  assert.equal(checkMintQuota({ basket: 'DUSD', beneficiary: ALICE, amount: '1000000' }, NOW), undefined);
+});
+
+test('per-beneficiary quota counts only that address and reports when the oldest mint frees room', () => {
+  process.env.MINT_QUOTA_PER_BENEFICIARY = '100';
+  writeLedger([
+    { beneficiary: ALICE, amount: '60', hoursAgo: 20 },
+    { beneficiary: ALICE.toUpperCase().replace('0X', '0x'), amount: '30.5', hoursAgo: 2 },
+    { beneficiary: BOB, amount: '90', hoursAgo: 1 },
+  ]);
+
+  assert.equal(checkMintQuota({ basket: 'DUSD', beneficiary: ALICE, amount: '9.5' }, NOW), undefined);
+  assert.deepEqual(checkMintQuota({ basket: 'DUSD', beneficiary: ALICE, amount: '10' }, NOW), {
+    scope: 'beneficiary',
+    limit: '100',
+    used: '90.5',
+    remaining: '9.5',
+    windowHours: 24,
+    retryAfterSeconds: 4 * 3600,
+  });
+});
+
+test('mints outside the window, failed requests and redeems do not count', () => {
+  process.env.MINT_QUOTA_PER_BASKET = '100';
+  process.env.MINT_QUOTA_WINDOW_HOURS = '6';
+  writeLedger([
+    { beneficiary: ALICE, amount: '100', hoursAgo: 7 },
+    { beneficiary: ALICE, amount: '100', hoursAgo: 1, status: 'failed' },
+    { beneficiary: BOB, amount: '100', hoursAgo: 1, instruction: 'REDEEM' },
+  ]);
+
+  assert.equal(checkMintQuota({ basket: 'DUSD', beneficiary: BOB, amount: '100' }, NOW), undefined);
+  assert.equal(checkMintQuota({ basket: 'DUSD', beneficiary: BOB, amount: '1' }, NOW + 10 * HOUR), undefined);
+});
+
+test('per-basket quota sums every beneficiary; an amount over the limit has no retry hint', () => {
+  process.env.MINT_QUOTA_PER_BASKET = '100';
+  writeLedger([
+    { beneficiary: ALICE, amount: '50', hoursAgo: 3 },
+    { beneficiary: BOB, amount: '40', hoursAgo: 1 },
+  ]);
+
+  assert.equal(checkMintQuota({ basket: 'DUSD', beneficiary: BOB, amount: '20' }, NOW)?.retryAfterSeconds, 21 * 3600);
+  assert.equal(checkMintQuota({ basket: 'AUDT', beneficiary: BOB, amount: '20' }, NOW), undefined);
+
+  const exceeded = checkMintQuota({ basket: 'DUSD', beneficiary: BOB, amount: '101' }, NOW);
+  assert.equal(exceeded?.scope, 'basket');
+  assert.equal(exceeded?.retryAfterSeconds, undefined);
+});
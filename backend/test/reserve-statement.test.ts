@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { AttestationError, parseStatementCsv } from '../src/services/reserve-attester.js';
+
+test('totals statement balances exactly and takes the latest date', () => {
+  const csv = [
+    'Date,Account,Currency,Balance',
+    '2026-10-17,"Operating, main",USD,1000000.10',
+    '2026-10-18,Custody,usd,0.000000000000000001',
+    '2026-10-16,Escrow,USD,2500',
+  ].join('\r\n');
+
+  assert.deepEqual(parseStatementCsv(csv, 'USD'), {
+    totalReserve: '1002500.100000000000000001',
+    lastUpdated: '2026-10-18T00:00:00.000Z',
+    rows: 3,
+  });
+});
+
+test('statements without currency or date columns still total', () => {
+  assert.deepEqual(parseStatementCsv('balance\n1.5\n\n2.5\n', 'AUD'), { totalReserve: '4', lastUpdated: undefined, rows: 2 });
+});
+
+test('rejects statements that cannot be totalled safely', () => {
+  const invalid: Array<[string, RegExp]> = [
+    ['balance', /header row and at least one balance row/],
+    ['amount\n100', /no "balance" column/],
+    ['account,balance\nOps,1,000.00', /expected 2 columns/],
+    ['balance\n-5', /not a plain decimal/],
+    ['balance\n1e6', /not a plain decimal/],
+    ['currency,balance\nEUR,100', /expected USD/],
+    ['date,balance\nyesterday,100', /not a valid date/],
+    [`balance\n1.${'1'.repeat(19)}`, /more than 18 decimal places/],
+  ];
+
+  for (const [csv, message] of invalid) {
+    assert.throws(() => parseStatementCsv(csv, 'USD'), (error: unknown) => error instanceof AttestationError && message.test(error.message), csv);
+  }
+});
@@ -0,0 +1,21 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { AmountError, parseTokenAmount } from '../src/services/token-amounts.js';
+
+test('parses decimal amounts into token units without floating point', () => {
+  assert.equal(parseTokenAmount('1000', 18), 1000n * 10n ** 18n);
+  assert.equal(parseTokenAmount('12.5', 6), 12_500_000n);
+  assert.equal(parseTokenAmount('0.000000000000000001', 18), 1n);
+  assert.equal(parseTokenAmount('123456789.123456789123456789', 18), 123456789123456789123456789n);
+});
+
+test('rejects more fractional digits than the token supports instead of rounding', () => {
+  assert.throws(() => parseTokenAmount('1.1234567', 6), AmountError);
+  assert.throws(() => parseTokenAmount('1.5', 0), /fractional digits/);
+});
+
+test('rejects zero and anything that is not a plain decimal', () => {
+  for (const amount of ['0', '0.000', '-1', '+1', '1e18', '1,000', ' 1', '.5', '1.', '']) {
+    assert.throws(() => parseTokenAmount(amount, 18), AmountError, amount);
+  }
+});
@@ -0,0 +1,16 @@
+/**
+ * Encodes a bank reference as the bytes32 carried in reports and consumer events.
+ * A reference that is already 32-byte hex (the backend sends its transaction id
+ * zero-padded this way) is kept as-is, so the backend can match the consumer's
+ * events against the reference it sent; anything else is ASCII, zero-padded and
+ * truncated to 32 bytes.
+ * Kept out of main.ts (no SDK imports) so the backend's tests can check both encodings agree.
+ */
+export const stringToBytes32 = (str: string): `0x${string}` => {
+	if (/^0x[0-9a-fA-F]{64}$/.test(str)) {
+		return str.toLowerCase() as `0x${string}`
+	}
+
+	const bytes32 = str.padEnd(32, '\0').slice(0, 32)
+	return `0x${Buffer.from(bytes32).toString('hex')}` as `0x${string}`
+}
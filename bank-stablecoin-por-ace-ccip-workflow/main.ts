@@ -1,6 +1,7 @@
 import { 
 	bytesToHex,
 	cre,
+	encodeCallMsg,
 	getNetwork,
 	type HTTPPayload,
 	hexToBase64,
@@ -9,13 +10,87 @@ import {
 	type NodeRuntime,
 	TxStatus,
 	consensusMedianAggregation,
+	LAST_FINALIZED_BLOCK_NUMBER,
 } from '@chainlink/cre-sdk'
-import { encodeAbiParameters, parseAbiParameters, encodeFunctionData, decodeFunctionResult, getAddress } from 'viem'
+import { encodeAbiParameters, parseAbiParameters, encodeFunctionData, decodeFunctionResult, decodeErrorResult, formatUnits, parseUnits, getAddress, hashMessage, isAddressEqual, parseSignature, zeroAddress, type Address, type Hex } from 'viem'
+import { publicKeyToAddress } from 'viem/accounts'
+import { secp256k1 } from '@noble/curves/secp256k1'
 import { z } from 'zod'
+import { stringToBytes32 } from './bank-reference'
 
 // ========================================
 // CONFIG SCHEMA
 // ========================================
+// Where a basket's reserve attestation comes from
+const reserveSourceSchema = z.object({
+	url: z.string(),
+	// Dotted path to the reserve figure in the JSON response (e.g. "data.reserves.total")
+	jsonPath: z.string().default('totalReserve'),
+	// Dotted path to the attestation timestamp
+	timestampPath: z.string().default('lastUpdated'),
+	// Currency the reserves are reported in (the basket's own currency when unset)
+	currency: z.string().optional(),
+	// Attestations older than this fail with POR_STALE (no limit when unset, except for
+	// attested sources, which are capped at config.maxAttestationAgeSeconds)
+	maxStalenessSeconds: z.number().positive().optional(),
+	// Response used for file:// sources (WASM has no filesystem access)
+	mockResponse: z.record(z.any()).optional(),
+	// When set, the response must carry this address's signature over the figure
+	// (the backend's /attestations service); unsigned or mis-signed figures fail with POR_ATTESTATION_INVALID
+	attester: z.string().optional(),
+})
+
+type ReserveSource = z.infer<typeof reserveSourceSchema>
+
+// Where FX rates come from when a basket's reserves are in another currency than its token
+const fxRateSourceSchema = z.object({
+	url: z.string(),
+	// Dotted path to the rates object: units of each currency per one unit of `base`
+	ratesPath: z.string().default('rates'),
+	base: z.string().default('USD'),
+	// Response used for file:// sources (WASM has no filesystem access)
+	mockResponse: z.record(z.any()).optional(),
+})
+
+type FxRateSource = z.infer<typeof fxRateSourceSchema>
+
+// One reserve asset backing a basket and its target share of supply
+const constituentSchema = z.object({
+	// Asset identifier, e.g. "USD-TBILLS"
+	asset: z.string().min(1),
+	// Target weight in basis points; a basket's constituents sum to 10000
+	weightBps: z.number().int().positive().max(10_000),
+	reserveSource: reserveSourceSchema,
+})
+
+type Constituent = z.infer<typeof constituentSchema>
+
+const weightsSumTo10000 = (constituents: { weightBps: number }[]): boolean =>
+	constituents.reduce((sum, c) => sum + c.weightBps, 0) === 10_000
+
+const constituentsSchema = z.array(constituentSchema).refine(weightsSumTo10000, 'Constituent weights must sum to 10000 bps')
+
+// Sources published with a basket arrive in the payload: they never carry a mockResponse,
+// and are only used once assertTrustedSource() accepts them
+const publishedReserveSourceSchema = reserveSourceSchema.omit({ mockResponse: true })
+
+const publishedConstituentsSchema = z
+	.array(constituentSchema.extend({ reserveSource: publishedReserveSourceSchema }))
+	.refine(weightsSumTo10000, 'Constituent weights must sum to 10000 bps')
+
+// A constituent plus the subject its attestation is signed for ("SYMBOL" or "SYMBOL:ASSET")
+type AttestedConstituent = Constituent & { subject: string }
+
+// A basket the scheduled PoR monitor checks (reserves resolve as for a mint payload)
+const monitoredBasketSchema = z.object({
+	stablecoinAddress: z.string(),
+	currency: z.string().default('USD'),
+	reserveSource: reserveSourceSchema.optional(),
+	constituents: constituentsSchema.optional(),
+})
+
+type MonitoredBasket = z.infer<typeof monitoredBasketSchema>
+
 const configSchema = z.object({
 	sepolia: z.object({
 		stablecoinAddress: z.string(),
@@ -27,8 +102,23 @@ const configSchema = z.object({
 		stablecoinAddress: z.string(),
 		chainSelector: z.string(),
 	}),
+	// Reserve source for payloads that name no basket (published baskets need their own source)
 	porApiUrl: z.string(),
-	decimals: z.number(),
+	// Reserve sources keyed by basket symbol
+	reserveSources: z.record(reserveSourceSchema).default({}),
+	// Required only for baskets whose reserves are in another currency
+	fxRates: fxRateSourceSchema.optional(),
+	// A reserve source published with a basket is only used when its attester is listed here
+	// (e.g. the backend's /attestations signer) or its URL is in allowedReserveUrls
+	trustedAttesters: z.array(z.string()).default([]),
+	allowedReserveUrls: z.array(z.string()).default([]),
+	// Age limit for signed attestations, so an old, higher figure cannot be replayed; a
+	// source's own maxStalenessSeconds can only tighten it
+	maxAttestationAgeSeconds: z.number().positive().default(86_400),
+	// Cron schedule (with seconds) for the PoR monitor
+	schedule: z.string().default('0 */10 * * * *'),
+	// Baskets the PoR monitor reports on, keyed by symbol
+	monitoredBaskets: z.record(monitoredBasketSchema).default({}),
 })
 
 type Config = z.infer<typeof configSchema>
@@ -52,11 +142,19 @@ const payloadSchema = z.object({
 		destinationChain: z.string(),
 		beneficiary: z.string(),
 	}).optional(),
+	// Instruction type (optional - defaults to MINT)
+	instructionType: z.enum(['MINT', 'REDEEM']).default('MINT'),
 	// Dynamic basket contract addresses (optional - falls back to config)
 	basket: z.object({
 		symbol: z.string(),
 		stablecoinAddress: z.string(),
 		mintingConsumerAddress: z.string(),
+		// Token denomination (falls back to the payload currency)
+		currency: z.string().optional(),
+		// Reserve source published with the basket (overrides config.reserveSources)
+		reserveSource: publishedReserveSourceSchema.optional(),
+		// Multi-asset composition (overrides reserveSource)
+		constituents: publishedConstituentsSchema.optional(),
 	}).optional(),
 })
 
@@ -66,6 +164,7 @@ type Payload = z.infer<typeof payloadSchema>
 // CONSTANTS
 // ========================================
 const INSTRUCTION_MINT = 1
+const INSTRUCTION_REDEEM = 2
 
 // StablecoinERC20 ABI (minimal)
 const StablecoinABI = [
@@ -76,6 +175,30 @@ const StablecoinABI = [
 		outputs: [{ name: '', type: 'uint256' }],
 		stateMutability: 'view',
 	},
+	{
+		type: 'function',
+		name: 'decimals',
+		inputs: [],
+		outputs: [{ name: '', type: 'uint8' }],
+		stateMutability: 'view',
+	},
+] as const
+
+// Custom errors the consumers revert with (see basket-contracts/src/MintingConsumerWithACE.sol);
+// PolicyRunRejected comes from the ACE PolicyEngine and bubbles up through onReport
+const ConsumerErrorsABI = [
+	{ type: 'error', name: 'MintFailed', inputs: [] },
+	{ type: 'error', name: 'RedeemFailed', inputs: [] },
+	{ type: 'error', name: 'InvalidInstructionType', inputs: [] },
+	{
+		type: 'error',
+		name: 'PolicyRunRejected',
+		inputs: [
+			{ name: 'selector', type: 'bytes4' },
+			{ name: 'policy', type: 'address' },
+			{ name: 'rejectReason', type: 'string' },
+		],
+	},
 ] as const
 
 // ========================================
@@ -84,74 +207,810 @@ const StablecoinABI = [
 const safeJsonStringify = (obj: any): string =>
 	JSON.stringify(obj, (_, value) => (typeof value === 'bigint' ? value.toString() : value), 2)
 
-const stringToBytes32 = (str: string): `0x${string}` => {
-	const bytes32 = str.padEnd(32, '\0').slice(0, 32)
-	return `0x${Buffer.from(bytes32).toString('hex')}` as `0x${string}`
+/**
+ * Reads a value from parsed JSON by dotted path ("a.b.0.c")
+ */
+const readJsonPath = (data: any, path: string): any =>
+	path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), data)
+
+/**
+ * Amount that cannot be represented in the token's units
+ */
+class AmountError extends Error {}
+
+/**
+ * Parses a decimal amount string into token units without going through
+ * floating point. More fractional digits than the token supports is an error,
+ * not a silent rounding.
+ */
+const parseTokenAmount = (amount: string, decimals: number): bigint => {
+	const match = /^(\d+)(?:\.(\d+))?$/.exec(amount)
+	if (!match) {
+		throw new AmountError(`Amount "${amount}" is not a plain decimal number`)
+	}
+
+	const fraction = match[2] ?? ''
+	if (fraction.length > decimals) {
+		throw new AmountError(`Amount "${amount}" has ${fraction.length} fractional digits; the token supports ${decimals}`)
+	}
+
+	return parseUnits(amount, decimals)
+}
+
+/**
+ * Scales a reserve figure to token units, truncating digits beyond the token's
+ * decimals so reserves are never rounded up
+ */
+const reserveToUnits = (reserve: number, decimals: number): bigint => {
+	if (!Number.isFinite(reserve) || reserve < 0) {
+		throw new Error(`Invalid reserve figure: ${reserve}`)
+	}
+	if (reserve >= 1e21) {
+		// Whole numbers only at this size, and String() would use exponent notation
+		return BigInt(reserve) * 10n ** BigInt(decimals)
+	}
+
+	// Shortest decimal form (0.1 → "0.1"); toFixed only for tiny values printed as 1e-7
+	const text = /e/i.test(String(reserve)) ? reserve.toFixed(decimals) : String(reserve)
+	const [whole, fraction = ''] = text.split('.')
+	return parseUnits(`${whole}.${fraction.slice(0, decimals) || '0'}`, decimals)
+}
+
+/**
+ * Tells the backend to pause minting for a basket whose attested reserves no longer
+ * cover its current on-chain supply (amounts are decimal strings in the basket's currency)
+ */
+interface PauseInstruction {
+	reason: string
+	totalSupply: string
+	totalReserves: string
+}
+
+/**
+ * PoR failure with a distinct error code (and the attestation timestamp it was judged on).
+ * Carries a pause instruction when the basket is already under-collateralized.
+ */
+class PorValidationError extends Error {
+	constructor(
+		readonly code: 'POR_INSUFFICIENT_RESERVES' | 'POR_STALE' | 'POR_ATTESTATION_INVALID' | 'POR_SOURCE_UNTRUSTED' | 'FX_RATE_UNAVAILABLE',
+		message: string,
+		readonly attestationTimestamp?: string,
+		readonly pause?: PauseInstruction,
+	) {
+		super(message)
+	}
+}
+
+/**
+ * A pause instruction when reserves are below the current supply (not the projected one:
+ * a mint that would overdraw reserves is just rejected)
+ */
+const pauseIfUndercollateralized = (
+	totalReserves: bigint,
+	totalSupply: bigint,
+	decimals: number,
+	currency: string,
+): PauseInstruction | undefined => {
+	if (totalReserves >= totalSupply) return undefined
+
+	const reserves = formatUnits(totalReserves, decimals)
+	const supply = formatUnits(totalSupply, decimals)
+	return {
+		reason: `Reserves of ${reserves} ${currency} are below the on-chain supply of ${supply} ${currency}`,
+		totalSupply: supply,
+		totalReserves: reserves,
+	}
+}
+
+// ========================================
+// RESULT ENVELOPE
+// ========================================
+// The backend parses the single log line starting with RESULT_MARKER.
+// Bump RESULT_VERSION on any breaking change to WorkflowResult.
+const RESULT_MARKER = 'BSKT_RESULT'
+const RESULT_SCHEMA = 'bskt.workflow.result'
+const RESULT_VERSION = 1
+
+type WorkflowErrorCode =
+	| 'INVALID_PAYLOAD'
+	| 'INVALID_INSTRUCTION'
+	| 'INVALID_AMOUNT'
+	| 'POR_INSUFFICIENT_RESERVES'
+	| 'POR_STALE'
+	| 'POR_ATTESTATION_INVALID'
+	| 'POR_SOURCE_UNTRUSTED'
+	| 'FX_RATE_UNAVAILABLE'
+	| 'ACE_POLICY_REJECTED'
+	| 'ACE_POLICY_REJECTED_CCIP'
+	| 'MINT_FAILED'
+	| 'REDEEM_FAILED'
+	| 'CCIP_FAILED'
+	| 'WORKFLOW_ERROR'
+
+// Why a report write failed, decoded from the revert data where possible
+interface WorkflowErrorDetails {
+	// Decoded custom error, e.g. PolicyRunRejected or MintFailed
+	errorName?: string
+	// PolicyRunRejected: the policy that rejected and its reason
+	policy?: string
+	reason?: string
+	// Write status and raw error when the revert could not be decoded
+	txStatus?: string
+	rawMessage?: string
+}
+
+interface WorkflowError {
+	code: WorkflowErrorCode
+	message: string
+	attestationTimestamp?: string
+	details?: WorkflowErrorDetails
+}
+
+interface WorkflowResult {
+	success: boolean
+	instructionType: 'MINT' | 'REDEEM'
+	transactionId?: string
+	beneficiary?: string
+	amount?: string
+	currency?: string
+	reportDelivered?: boolean
+	mintTransaction?: string
+	redeemTransaction?: string
+	ccipTransaction?: string
+	message?: string
+	verificationNote?: string
+	// Set when the mint's PoR check found the basket already under-collateralized
+	pause?: PauseInstruction
+	error?: WorkflowError
+}
+
+/**
+ * Logs the versioned result envelope on one line and returns it as the handler result
+ */
+const emitResult = (runtime: Runtime<Config>, result: WorkflowResult): string => {
+	const envelope = { schema: RESULT_SCHEMA, version: RESULT_VERSION, ...result }
+	const json = JSON.stringify(envelope, (_, value) => (typeof value === 'bigint' ? value.toString() : value))
+	runtime.log(`${RESULT_MARKER} ${json}`)
+	return json
+}
+
+/**
+ * Emits a failure envelope for a (possibly unparsed) payload
+ */
+const emitFailure = (
+	runtime: Runtime<Config>,
+	parsedPayload: Payload | undefined,
+	error: WorkflowError,
+	fields: Partial<WorkflowResult> = {},
+): string =>
+	emitResult(runtime, {
+		success: false,
+		instructionType: parsedPayload?.instructionType ?? 'MINT',
+		transactionId: parsedPayload?.transactionId,
+		...fields,
+		error,
+	})
+
+// ========================================
+// REVERT DECODING
+// ========================================
+/**
+ * Report write failure with a code and the decoded revert behind it
+ */
+class ReportWriteError extends Error {
+	constructor(
+		readonly code: WorkflowErrorCode,
+		message: string,
+		readonly details: WorkflowErrorDetails,
+	) {
+		super(message)
+	}
+}
+
+/**
+ * Finds revert data in a write error message and decodes it against the consumer
+ * and PolicyEngine errors (plus Error(string) / Panic)
+ */
+const decodeRevert = (errorMessage: string): { errorName: string; args: readonly unknown[] } | undefined => {
+	for (const candidate of errorMessage.match(/0x[0-9a-fA-F]{8,}/g) ?? []) {
+		try {
+			const decoded = decodeErrorResult({ abi: ConsumerErrorsABI, data: candidate as Hex })
+			return { errorName: decoded.errorName, args: decoded.args ?? [] }
+		} catch {
+			// Not revert data (an address, tx hash, ...) or an unknown selector
+		}
+	}
+	return undefined
+}
+
+/**
+ * Turns a failed report write into a ReportWriteError. `fallbackCode` applies when the
+ * revert cannot be decoded; a policy rejection uses `policyCode`.
+ */
+const writeFailure = (
+	errorMessage: string,
+	txStatus: string,
+	subject: string,
+	fallbackCode: WorkflowErrorCode,
+	policyCode: WorkflowErrorCode = 'ACE_POLICY_REJECTED',
+): ReportWriteError => {
+	const decoded = decodeRevert(errorMessage)
+
+	if (!decoded) {
+		return new ReportWriteError(fallbackCode, `Report write failed for ${subject}: ${errorMessage}`, {
+			txStatus,
+			rawMessage: errorMessage,
+		})
+	}
+
+	const { errorName, args } = decoded
+	switch (errorName) {
+		case 'PolicyRunRejected': {
+			const [, policy, reason] = args as readonly [Hex, Address, string]
+			return new ReportWriteError(
+				policyCode,
+				`[ACE REJECTED] Policy ${policy} rejected ${subject}: ${reason || 'no reason given'}`,
+				{ errorName, policy, reason, txStatus },
+			)
+		}
+		case 'MintFailed':
+			return new ReportWriteError('MINT_FAILED', `Stablecoin mint reverted for ${subject} (MintFailed)`, { errorName, txStatus })
+		case 'RedeemFailed':
+			return new ReportWriteError('REDEEM_FAILED', `Stablecoin burn reverted for ${subject} (RedeemFailed; check balance)`, { errorName, txStatus })
+		case 'InvalidInstructionType':
+			return new ReportWriteError('INVALID_INSTRUCTION', `Consumer rejected the instruction type for ${subject}`, { errorName, txStatus })
+		default: {
+			// Error(string) or Panic(uint256)
+			const reason = args.length > 0 ? String(args[0]) : undefined
+			return new ReportWriteError(fallbackCode, `Report write reverted for ${subject}: ${errorName}${reason ? ` (${reason})` : ''}`, {
+				errorName,
+				reason,
+				txStatus,
+			})
+		}
+	}
+}
+
+/**
+ * Throws if a report write failed. A successful forwarder transaction only throws
+ * when its error message carries decodable revert data from the consumer.
+ */
+const assertReportWritten = (
+	resp: { txStatus: TxStatus; errorMessage?: string },
+	subject: string,
+	fallbackCode: WorkflowErrorCode,
+	policyCode?: WorkflowErrorCode,
+): void => {
+	const txStatus = String(resp.txStatus)
+
+	if (resp.txStatus !== TxStatus.SUCCESS) {
+		throw writeFailure(resp.errorMessage || txStatus, txStatus, subject, fallbackCode, policyCode)
+	}
+
+	if (resp.errorMessage && decodeRevert(resp.errorMessage)) {
+		throw writeFailure(resp.errorMessage, txStatus, subject, fallbackCode, policyCode)
+	}
+}
+
+// ========================================
+// ON-CHAIN READS
+// ========================================
+/**
+ * Reads totalSupply() from the basket's stablecoin at the last finalized block
+ */
+const readTotalSupply = (
+	runtime: Runtime<Config>,
+	evmClient: cre.capabilities.EVMClient,
+	stablecoinAddress: string,
+): bigint => {
+	const callData = encodeFunctionData({
+		abi: StablecoinABI,
+		functionName: 'totalSupply',
+	})
+
+	const contractCall = evmClient
+		.callContract(runtime, {
+			call: encodeCallMsg({
+				from: zeroAddress,
+				to: getAddress(stablecoinAddress) as Address,
+				data: callData,
+			}),
+			blockNumber: LAST_FINALIZED_BLOCK_NUMBER,
+		})
+		.result()
+
+	return decodeFunctionResult({
+		abi: StablecoinABI,
+		functionName: 'totalSupply',
+		data: bytesToHex(contractCall.data),
+	})
+}
+
+/**
+ * Reads decimals() from the basket's stablecoin (amounts are scaled by it, not a global config value)
+ */
+const readDecimals = (
+	runtime: Runtime<Config>,
+	evmClient: cre.capabilities.EVMClient,
+	stablecoinAddress: string,
+): number => {
+	const contractCall = evmClient
+		.callContract(runtime, {
+			call: encodeCallMsg({
+				from: zeroAddress,
+				to: getAddress(stablecoinAddress) as Address,
+				data: encodeFunctionData({ abi: StablecoinABI, functionName: 'decimals' }),
+			}),
+			blockNumber: LAST_FINALIZED_BLOCK_NUMBER,
+		})
+		.result()
+
+	return decodeFunctionResult({
+		abi: StablecoinABI,
+		functionName: 'decimals',
+		data: bytesToHex(contractCall.data),
+	})
+}
+
+// ========================================
+// RESERVE SOURCES
+// ========================================
+/**
+ * Rejects a reserve source published with a basket unless config vouches for it: a
+ * publisher could otherwise point PoR at a figure of their choosing
+ */
+const assertTrustedSource = (config: Config, source: ReserveSource): void => {
+	const trustedAttester = source.attester !== undefined
+		&& config.trustedAttesters.some((attester) => isAddressEqual(attester as Address, source.attester as Address))
+
+	if (!trustedAttester && !config.allowedReserveUrls.includes(source.url)) {
+		throw new PorValidationError(
+			'POR_SOURCE_UNTRUSTED',
+			`[PoR SOURCE] ${source.url} is not an allowed reserve URL and is not signed by a trusted attester`,
+		)
+	}
+}
+
+/**
+ * The staleness limit applied to a source: its own maxStalenessSeconds, capped at
+ * config.maxAttestationAgeSeconds when it is signed (undefined means no limit)
+ */
+const maxAttestationAge = (config: Config, source: ReserveSource): number | undefined => {
+	if (!source.attester) return source.maxStalenessSeconds
+	return Math.min(source.maxStalenessSeconds ?? Infinity, config.maxAttestationAgeSeconds)
+}
+
+/**
+ * Picks the reserve constituents for a basket:
+ * basket constituents → basket reserveSource → config.reserveSources[symbol] → config.porApiUrl.
+ * Basket sources from a payload (`published`) must pass assertTrustedSource(); the
+ * monitor's baskets come from config and are trusted as-is. A published basket with no
+ * source of its own is rejected rather than checked against the porApiUrl default.
+ */
+const resolveConstituents = (
+	config: Config,
+	basket: Pick<NonNullable<Payload['basket']>, 'symbol' | 'reserveSource' | 'constituents'> | undefined,
+	published: boolean,
+): AttestedConstituent[] => {
+	const checked = (reserveSource: ReserveSource): ReserveSource => {
+		if (published) assertTrustedSource(config, reserveSource)
+		return reserveSource
+	}
+
+	if (basket?.constituents?.length) {
+		return basket.constituents.map((c) => ({
+			...c,
+			reserveSource: checked(c.reserveSource),
+			subject: `${basket.symbol}:${c.asset}`,
+		}))
+	}
+
+	const symbol = basket?.symbol ?? 'reserves'
+	const single = (reserveSource: ReserveSource): AttestedConstituent[] => [
+		{ asset: symbol, weightBps: 10_000, reserveSource, subject: symbol },
+	]
+
+	if (basket?.reserveSource) {
+		return single(checked(basket.reserveSource))
+	}
+
+	if (basket && config.reserveSources[basket.symbol]) {
+		return single(config.reserveSources[basket.symbol])
+	}
+
+	if (basket && published) {
+		throw new PorValidationError(
+			'POR_SOURCE_UNTRUSTED',
+			`[PoR SOURCE] Basket ${basket.symbol} has no reserve source of its own`,
+		)
+	}
+
+	return single(reserveSourceSchema.parse({ url: config.porApiUrl }))
+}
+
+/**
+ * The message an attester signs (EIP-191); must match attestationMessage() in
+ * backend/src/services/reserve-attester.ts
+ */
+const attestationMessage = (subject: string, totalReserve: number, currency: string, lastUpdated: string): string =>
+	[
+		'BSKT reserve attestation',
+		`subject: ${subject}`,
+		`totalReserve: ${totalReserve}`,
+		`currency: ${currency}`,
+		`lastUpdated: ${lastUpdated}`,
+	].join('\n')
+
+/**
+ * Recovers the signer of an EIP-191 message synchronously (viem's recoverMessageAddress is async)
+ */
+const recoverSigner = (message: string, signature: Hex): Address => {
+	const { r, s, yParity } = parseSignature(signature)
+	const publicKey = new secp256k1.Signature(BigInt(r), BigInt(s))
+		.addRecoveryBit(yParity ?? 0)
+		.recoverPublicKey(hashMessage(message).slice(2))
+		.toHex(false)
+	return publicKeyToAddress(`0x${publicKey}`)
+}
+
+/**
+ * Rejects a reserve figure unless the source's attester signed it for this subject and currency
+ */
+const verifyAttestation = (
+	data: any,
+	source: ReserveSource,
+	totalReserve: number,
+	lastUpdated: string,
+	expected: { subject: string; currency: string },
+): void => {
+	if (!source.attester) return
+
+	const fail = (reason: string): never => {
+		throw new PorValidationError('POR_ATTESTATION_INVALID', `[PoR ATTESTATION] ${source.url}: ${reason}`, lastUpdated)
+	}
+
+	if (typeof data?.signature !== 'string') fail('response is not signed')
+	if (data.subject !== expected.subject) fail(`attestation is for "${data.subject}", expected "${expected.subject}"`)
+	if (data.currency !== expected.currency) fail(`attestation is in ${data.currency}, expected ${expected.currency}`)
+
+	let signer: Address | undefined
+	try {
+		signer = recoverSigner(attestationMessage(data.subject, totalReserve, data.currency, lastUpdated), data.signature)
+	} catch {
+		fail('signature is malformed')
+	}
+	if (!signer || !isAddressEqual(signer, source.attester as Address)) {
+		fail(`signed by ${signer}, expected attester ${source.attester}`)
+	}
+}
+
+/**
+ * Extracts { totalReserve, lastUpdated } from a reserve API response,
+ * verifying the attester's signature when the source names one
+ */
+const extractReserveData = (
+	data: any,
+	source: ReserveSource,
+	expected: { subject: string; currency: string },
+): { totalReserve: number; lastUpdated: string } => {
+	const totalReserve = Number(readJsonPath(data, source.jsonPath))
+	if (!Number.isFinite(totalReserve)) {
+		throw new Error(`Reserve figure not found at "${source.jsonPath}" in ${source.url}`)
+	}
+
+	const lastUpdated = String(readJsonPath(data, source.timestampPath) ?? '')
+	verifyAttestation(data, source, totalReserve, lastUpdated, expected)
+
+	return { totalReserve, lastUpdated }
+}
+
+/**
+ * Fetches the reserve attestation for a source
+ */
+const fetchReserveData = (
+	runtime: Runtime<Config>,
+	source: ReserveSource,
+	expected: { subject: string; currency: string },
+): { totalReserve: number; lastUpdated: string } => {
+	if (source.url.startsWith('file://')) {
+		if (source.mockResponse) {
+			runtime.log(`Using mock PoR response configured for ${source.url}`)
+			return extractReserveData(source.mockResponse, source, expected)
+		}
+
+		if (source.attester) {
+			throw new PorValidationError('POR_ATTESTATION_INVALID', `[PoR ATTESTATION] ${source.url}: no signed mockResponse configured`)
+		}
+
+		runtime.log('Using hardcoded mock PoR data for demo')
+		return {
+			totalReserve: 1000000.00,  // 1,000,000 in reserves (hardcoded for WASM compatibility)
+			lastUpdated: '2025-10-29T00:00:00Z',
+		}
+	}
+
+	// Fetch from real PoR API in node mode
+	return runtime.runInNodeMode(
+		(nodeRuntime: NodeRuntime) => {
+			const httpClient = new cre.capabilities.HTTPClient()
+			const response = httpClient.sendRequest(nodeRuntime, {
+				url: source.url,
+				method: 'GET',
+			}).result()
+			const data = JSON.parse(new TextDecoder().decode(response.body))
+			return extractReserveData(data, source, expected)
+		},
+		consensusMedianAggregation()
+	)().result()
+}
+
+// ========================================
+// FX RATES
+// ========================================
+/**
+ * Reads the rate from one currency to another out of an FX rates response
+ * (both quoted against the source's base currency)
+ */
+const extractFxRate = (data: any, source: FxRateSource, from: string, to: string): number => {
+	const rates = readJsonPath(data, source.ratesPath) ?? {}
+	const rateOf = (currency: string): number =>
+		currency === source.base ? 1 : Number(rates[currency])
+
+	const rate = rateOf(to) / rateOf(from)
+	if (!Number.isFinite(rate) || rate <= 0) {
+		throw new PorValidationError('FX_RATE_UNAVAILABLE', `No ${from}/${to} rate in ${source.url}`)
+	}
+	return rate
+}
+
+/**
+ * Fetches how many units of `to` one unit of `from` is worth
+ */
+const fetchFxRate = (runtime: Runtime<Config>, from: string, to: string): number => {
+	const source = runtime.config.fxRates
+	if (!source) {
+		throw new PorValidationError('FX_RATE_UNAVAILABLE', `Reserves are in ${from} but the basket is in ${to} and no fxRates source is configured`)
+	}
+
+	if (source.url.startsWith('file://')) {
+		if (!source.mockResponse) {
+			throw new PorValidationError('FX_RATE_UNAVAILABLE', `file:// FX source ${source.url} needs a mockResponse`)
+		}
+		runtime.log(`Using mock FX rates configured for ${source.url}`)
+		return extractFxRate(source.mockResponse, source, from, to)
+	}
+
+	return runtime.runInNodeMode(
+		(nodeRuntime: NodeRuntime) => {
+			const httpClient = new cre.capabilities.HTTPClient()
+			const response = httpClient.sendRequest(nodeRuntime, {
+				url: source.url,
+				method: 'GET',
+			}).result()
+			const data = JSON.parse(new TextDecoder().decode(response.body))
+			return extractFxRate(data, source, from, to)
+		},
+		consensusMedianAggregation()
+	)().result()
 }
 
 // ========================================
 // PROOF OF RESERVE VALIDATION
 // ========================================
+/**
+ * Fetches one reserve attestation, rejects it if stale, and returns it in the
+ * token's units and currency (converted at an 18-decimal fixed-point FX rate,
+ * truncated so conversion never overstates reserves)
+ */
+const attestedReserves = (
+	runtime: Runtime<Config>,
+	constituent: AttestedConstituent,
+	decimals: number,
+	currency: string,
+): { units: bigint; lastUpdated: string; totalReserve: number; reserveCurrency: string } => {
+	const { asset: label, reserveSource, subject } = constituent
+	const reserveCurrency = reserveSource.currency ?? currency
+
+	runtime.log(`Reserve source (${label}): ${reserveSource.url} (${reserveSource.jsonPath}, ${reserveCurrency})`)
+
+	const reserveData = fetchReserveData(runtime, reserveSource, { subject, currency: reserveCurrency })
+	if (reserveSource.attester) {
+		runtime.log(`[PoR] Attestation for ${subject} signed by ${reserveSource.attester}`)
+	}
+
+	runtime.log(`Reserve Data (${label}): ${reserveData.totalReserve} ${reserveCurrency} (as of ${reserveData.lastUpdated})`)
+
+	// Reject out-of-date attestations before comparing against supply
+	const maxStalenessSeconds = maxAttestationAge(runtime.config, reserveSource)
+	if (maxStalenessSeconds !== undefined) {
+		const attestedAt = Date.parse(reserveData.lastUpdated)
+		const ageSeconds = Math.floor((runtime.now().getTime() - attestedAt) / 1000)
+
+		if (Number.isNaN(attestedAt) || ageSeconds > maxStalenessSeconds) {
+			runtime.log(`\n❌ FAILED: PoR attestation for ${label} is stale!`)
+			runtime.log(`   Attested at ${reserveData.lastUpdated}, max age ${maxStalenessSeconds}s.`)
+			throw new PorValidationError(
+				'POR_STALE',
+				`[PoR STALE] Reserve attestation for ${label} is stale: lastUpdated=${reserveData.lastUpdated || 'missing'}, age=${Number.isNaN(attestedAt) ? 'unknown' : ageSeconds}s, max=${maxStalenessSeconds}s`,
+				reserveData.lastUpdated,
+			)
+		}
+
+		runtime.log(`[PoR] Attestation age (${label}): ${ageSeconds}s (max ${maxStalenessSeconds}s)`)
+	}
+
+	let units = reserveToUnits(reserveData.totalReserve, decimals)
+	if (reserveCurrency !== currency) {
+		const rate = fetchFxRate(runtime, reserveCurrency, currency)
+		units = (units * reserveToUnits(rate, 18)) / 10n ** 18n
+		runtime.log(`[PoR] FX: 1 ${reserveCurrency} = ${rate} ${currency}; ${label} reserves ${formatUnits(units, decimals)} ${currency}`)
+	}
+
+	return { units, lastUpdated: reserveData.lastUpdated, totalReserve: reserveData.totalReserve, reserveCurrency }
+}
+
 /**
  * Validates Proof of Reserve before minting
- * Fetches reserve data from API and compares to current supply
+ * Each constituent's attested reserves must cover its weighted share of the
+ * basket's projected on-chain supply (a single-source basket is one constituent at 100%).
+ * Total reserves below the current supply also fail, with a pause instruction.
  */
 const validateProofOfReserve = (
 	runtime: Runtime<Config>,
-	config: Config,
+	evmClient: cre.capabilities.EVMClient,
+	stablecoinAddress: string,
+	decimals: number,
+	currency: string,
+	constituents: AttestedConstituent[],
 	mintAmount: bigint,
 ): boolean => {
 	runtime.log('\n[PoR Validation] Fetching reserve data...')
 
-	let reserveData: { totalReserve: number; lastUpdated: string }
-
-	if (config.porApiUrl.startsWith('file://')) {
-		   reserveData = {
-			   totalReserve: 1000000.00,  // 1,000,000 USD in reserves (hardcoded for WASM compatibility)
-			   lastUpdated: '2025-10-29T00:00:00Z',
-		   }
-		   runtime.log('Using hardcoded mock PoR data for demo')
-	} else {
-		// Fetch from real PoR API in node mode
-		reserveData = runtime.runInNodeMode(
-			(nodeRuntime: NodeRuntime) => {
-				const httpClient = new cre.capabilities.HTTPClient()
-				const response = httpClient.sendRequest(nodeRuntime, {
-					url: config.porApiUrl,
-					method: 'GET',
-				}).result()
-				const data = JSON.parse(new TextDecoder().decode(response.body))
-				return {
-					totalReserve: data.totalReserve,
-					lastUpdated: data.lastUpdated,
-				}
-			},
-			consensusMedianAggregation()
-		)().result()
+	// Fetch current on-chain supply of this basket's stablecoin
+	const totalSupply = readTotalSupply(runtime, evmClient, stablecoinAddress)
+	runtime.log(`[PoR] Stablecoin: ${stablecoinAddress}`)
+	runtime.log(`[PoR] On-Chain Total Supply: ${formatUnits(totalSupply, decimals)} ${currency}`)
+
+	const projectedSupply = totalSupply + mintAmount
+	runtime.log(`[PoR] Projected Total Supply: ${formatUnits(projectedSupply, decimals)} ${currency}`)
+
+	const attested = constituents.map((constituent) => ({
+		constituent,
+		...attestedReserves(runtime, constituent, decimals, currency),
+	}))
+
+	const totalReserves = attested.reduce((sum, r) => sum + r.units, 0n)
+	const pause = pauseIfUndercollateralized(totalReserves, totalSupply, decimals, currency)
+	if (pause) {
+		runtime.log(`\n❌ FAILED: Basket is under-collateralized, requesting a mint pause!`)
+		runtime.log(`   ${pause.reason}.`)
+		throw new PorValidationError(
+			'POR_INSUFFICIENT_RESERVES',
+			`[PoR FAILED] Reserves ${totalReserves} wei are below current supply ${totalSupply} wei; minting should be paused`,
+			attested[0]?.lastUpdated,
+			pause,
+		)
 	}
 
-	runtime.log(`Reserve Data: ${reserveData.totalReserve} USD (as of ${reserveData.lastUpdated})`)
+	for (const { constituent, ...reserves } of attested) {
+		// Rounded up, so shares never add up to less than the supply
+		const required = (projectedSupply * BigInt(constituent.weightBps) + 9_999n) / 10_000n
+		const share = `${constituent.weightBps / 100}%`
 
-	// Scale reserves to wei (18 decimals)
-	const reservesWei = BigInt(Math.floor(reserveData.totalReserve * (10 ** config.decimals)))
+		if (reserves.units < required) {
+			const deficit = required - reserves.units
+			runtime.log(`\n❌ FAILED: PoR Secure Mint Rejected!`)
+			runtime.log(`   ${constituent.asset} (${share}) is short by ${formatUnits(deficit, decimals)} ${currency}.`)
+			throw new PorValidationError(
+				'POR_INSUFFICIENT_RESERVES',
+				`[PoR FAILED] Insufficient reserves for ${constituent.asset}: have ${reserves.units} wei, need ${required} wei (${share} of projected supply ${projectedSupply} wei)`,
+				reserves.lastUpdated,
+			)
+		}
 
-	// Fetch current on-chain supply (simulate/mock for now)
-	// TODO: Replace with actual on-chain call if available
-	const MOCK_TOTAL_SUPPLY = BigInt(900000) * BigInt(10 ** config.decimals)
-	runtime.log(`[PoR] On-Chain Total Supply: ${Number(MOCK_TOTAL_SUPPLY / BigInt(10 ** config.decimals))} USD`)
+		runtime.log(`[PoR] ${constituent.asset}: ${formatUnits(reserves.units, decimals)} ${currency} covers ${share} share ${formatUnits(required, decimals)} ${currency}`)
+	}
 
-	const projectedSupply = MOCK_TOTAL_SUPPLY + mintAmount
-	runtime.log(`[PoR] Projected Total Supply: ${Number(projectedSupply / BigInt(10 ** config.decimals))} USD`)
+	runtime.log(`\n✅ SUCCESS: PoR Secure Mint Passed!`)
+	runtime.log(`   Reserves fully back projected supply (${formatUnits(projectedSupply, decimals)} ${currency}) across ${constituents.length} constituent(s).`)
+	return true
+}
+
+// ========================================
+// POR MONITOR
+// ========================================
+// The cron handler logs one MONITOR_MARKER line per monitored basket; the backend's
+// health monitor records them. Bump MONITOR_VERSION on any breaking change to ReserveRatioReport.
+const MONITOR_MARKER = 'BSKT_MONITOR'
+const MONITOR_SCHEMA = 'bskt.workflow.monitor'
+const MONITOR_VERSION = 1
 
-	if (reservesWei >= projectedSupply) {
-		runtime.log(`\n✅ SUCCESS: PoR Secure Mint Passed!`)
-		runtime.log(`   Reserves (${Number(reservesWei / BigInt(10 ** config.decimals))} USD) fully back projected supply (${Number(projectedSupply / BigInt(10 ** config.decimals))} USD).`)
-		return true
-	} else {
-		const deficit = projectedSupply - reservesWei
-		runtime.log(`\n❌ FAILED: PoR Secure Mint Rejected!`)
-		runtime.log(`   Insufficient reserves. Deficit: ${Number(deficit / BigInt(10 ** config.decimals))} USD.`)
-		throw new Error(`[PoR FAILED] Insufficient reserves: have ${reservesWei} wei (${reserveData.totalReserve} USD), need ${projectedSupply} wei for this mint`)
+interface ConstituentRatio {
+	asset: string
+	targetBps: number
+	// Share of the basket's total reserves
+	actualBps: number
+	// Attested figure in the reserve's own currency
+	reserve: number
+	reserveCurrency: string
+	// The same reserves in the basket's currency, as a decimal string
+	value: string
+	lastUpdated: string
+}
+
+interface ReserveRatioReport {
+	symbol: string
+	stablecoinAddress: string
+	currency: string
+	checkedAt: string
+	// Decimal strings, in the basket's currency
+	totalSupply?: string
+	totalReserves?: string
+	// totalReserves / totalSupply to 4 decimal places; null while nothing is minted
+	collateralRatio?: number | null
+	constituents?: ConstituentRatio[]
+	// Set when reserves are below supply
+	pause?: PauseInstruction
+	// Set instead of the figures when supply or reserves could not be read
+	error?: WorkflowError
+}
+
+/**
+ * Logs a basket's reserve ratio report on one line and returns the envelope
+ */
+const emitMonitorReport = (runtime: Runtime<Config>, report: ReserveRatioReport): object => {
+	const envelope = { schema: MONITOR_SCHEMA, version: MONITOR_VERSION, ...report }
+	runtime.log(`${MONITOR_MARKER} ${JSON.stringify(envelope)}`)
+	return envelope
+}
+
+/**
+ * Compares a basket's attested reserves with its on-chain supply. Unlike the mint-time
+ * check nothing is rejected: a shortfall is reported, with a pause instruction for the backend.
+ */
+const checkReserveRatio = (
+	runtime: Runtime<Config>,
+	evmClient: cre.capabilities.EVMClient,
+	symbol: string,
+	basket: MonitoredBasket,
+): ReserveRatioReport => {
+	const { stablecoinAddress, currency } = basket
+	const decimals = readDecimals(runtime, evmClient, stablecoinAddress)
+	const totalSupply = readTotalSupply(runtime, evmClient, stablecoinAddress)
+	runtime.log(`[Monitor] ${symbol} on-chain supply: ${formatUnits(totalSupply, decimals)} ${currency}`)
+
+	const reserves = resolveConstituents(runtime.config, { symbol, ...basket }, false).map((constituent) => ({
+		constituent,
+		...attestedReserves(runtime, constituent, decimals, currency),
+	}))
+	const totalReserves = reserves.reduce((sum, r) => sum + r.units, 0n)
+	const collateralRatio = totalSupply > 0n ? Number((totalReserves * 10_000n) / totalSupply) / 10_000 : null
+
+	runtime.log(`[Monitor] ${symbol} reserves: ${formatUnits(totalReserves, decimals)} ${currency} (ratio ${collateralRatio ?? 'n/a'})`)
+
+	const pause = pauseIfUndercollateralized(totalReserves, totalSupply, decimals, currency)
+	if (pause) {
+		runtime.log(`❌ ${symbol} is under-collateralized, requesting a mint pause: ${pause.reason}`)
+	}
+
+	return {
+		symbol,
+		stablecoinAddress,
+		currency,
+		checkedAt: runtime.now().toISOString(),
+		totalSupply: formatUnits(totalSupply, decimals),
+		totalReserves: formatUnits(totalReserves, decimals),
+		collateralRatio,
+		constituents: reserves.map(({ constituent, units, lastUpdated, totalReserve, reserveCurrency }) => ({
+			asset: constituent.asset,
+			targetBps: constituent.weightBps,
+			actualBps: totalReserves > 0n ? Number((units * 10_000n) / totalReserves) : 0,
+			reserve: totalReserve,
+			reserveCurrency,
+			value: formatUnits(units, decimals),
+			lastUpdated,
+		})),
+		...(pause ? { pause } : {}),
 	}
 }
 
@@ -230,26 +1089,9 @@ const mintWithACE = (
 		})
 		.result()
 
-	const txStatus = resp.txStatus
-
-	// Important: CRE Forwarder transaction may succeed even if consumer call fails!
-	// We need to check the actual execution result from Forwarder events
-	// For now, check if txStatus is success and errorMessage is empty
-	if (txStatus !== TxStatus.SUCCESS) {
-		const errorMsg = resp.errorMessage || txStatus
-		
-		// Check if it's a PolicyRunRejected error
-		if (errorMsg.includes('PolicyRunRejected') || errorMsg.includes('blacklisted')) {
-			throw new Error(`[ACE REJECTED] Address ${beneficiary} is blacklisted`)
-		}
-		
-		throw new Error(`Failed to mint: ${errorMsg}`)
-	}
-
-	// Additional check: If errorMessage contains policy rejection info
-	if (resp.errorMessage && (resp.errorMessage.includes('PolicyRunRejected') || resp.errorMessage.includes('blacklisted'))) {
-		throw new Error(`[ACE REJECTED] Address ${beneficiary} is blacklisted`)
-	}
+	// The CRE forwarder transaction may succeed even if the consumer call fails,
+	// so the backend still confirms MintExecuted on-chain afterwards
+	assertReportWritten(resp, `beneficiary ${beneficiary}`, 'MINT_FAILED')
 
 	const txHash = resp.txHash || new Uint8Array(32)
 	const txHashHex = bytesToHex(txHash)
@@ -260,6 +1102,75 @@ const mintWithACE = (
 	return txHashHex
 }
 
+// ========================================
+// REDEEM WITH ACE
+// ========================================
+/**
+ * Redeems (burns) stablecoins via ACE-protected consumer
+ * ACE automatically checks if the redeeming account is blacklisted
+ *
+ * @param account - Address whose tokens are burned (also checked by ACE)
+ */
+const redeemWithACE = (
+	runtime: Runtime<Config>,
+	evmClient: cre.capabilities.EVMClient,
+	mintingConsumerAddress: string,
+	account: string,
+	amount: bigint,
+	bankRef: string,
+): string => {
+	runtime.log(`\n[ACE Redeem] Burning ${amount} tokens from ${account}`)
+	runtime.log(`ACE will check: Is account (${account}) blacklisted?`)
+
+	// Normalize address
+	const checksummedAccount = getAddress(account)
+
+	// Convert bankRef to bytes32
+	const bankRefHex = stringToBytes32(bankRef)
+
+	// Encode redeem report: (instructionType=2, account, amount, bankRef)
+	// The consumer calls stablecoin.burnFrom(account, amount) on success
+	const reportData = encodeAbiParameters(
+		parseAbiParameters('uint8 instructionType, address beneficiary, uint256 amount, bytes32 bankRef'),
+		[INSTRUCTION_REDEEM, checksummedAccount, amount, bankRefHex],
+	)
+
+	runtime.log(`Encoded redeem report: ${reportData.slice(0, 66)}...`)
+
+	// Generate DON-signed report
+	const reportResponse = runtime
+		.report({
+			encodedPayload: hexToBase64(reportData),
+			encoderName: 'evm',
+			signingAlgo: 'ecdsa',
+			hashingAlgo: 'keccak256',
+		})
+		.result()
+
+	// Write to MintingConsumerWithACE
+	// Same runPolicy path as minting; burnFrom reverts with RedeemFailed
+	// if the account holds less than the requested amount
+	const resp = evmClient
+		.writeReport(runtime, {
+			receiver: mintingConsumerAddress,
+			report: reportResponse,
+			gasConfig: {
+				gasLimit: '500000',
+			},
+		})
+		.result()
+
+	assertReportWritten(resp, `account ${account}`, 'REDEEM_FAILED')
+
+	const txHash = resp.txHash || new Uint8Array(32)
+	const txHashHex = bytesToHex(txHash)
+
+	runtime.log(`⚠️  Redeem report delivered: ${txHashHex}`)
+	runtime.log(`   ACE policies apply: Blacklist check for account`)
+	runtime.log(`   Verify execution: https://sepolia.etherscan.io/tx/${txHashHex}`)
+	return txHashHex
+}
+
 // ========================================
 // CCIP TRANSFER WITH ACE
 // ========================================
@@ -324,18 +1235,7 @@ const transferWithACE = (
 		})
 		.result()
 
-	const txStatus = resp.txStatus
-
-	if (txStatus !== TxStatus.SUCCESS) {
-		const errorMsg = resp.errorMessage || txStatus
-		
-		// Check if it's a PolicyRunRejected error
-		if (errorMsg.includes('PolicyRunRejected') || errorMsg.includes('blacklisted')) {
-			throw new Error(`[ACE REJECTED] Beneficiary ${beneficiary} is blacklisted`)
-		}
-		
-		throw new Error(`Failed to initiate CCIP transfer: ${errorMsg}`)
-	}
+	assertReportWritten(resp, `CCIP beneficiary ${beneficiary}`, 'CCIP_FAILED', 'ACE_POLICY_REJECTED_CCIP')
 
 	const txHash = resp.txHash || new Uint8Array(32)
 	const txHashHex = bytesToHex(txHash)
@@ -346,10 +1246,97 @@ const transferWithACE = (
 	return txHashHex
 }
 
+// ========================================
+// REDEEM FLOW
+// ========================================
+/**
+ * Handles a REDEEM instruction (off-ramp)
+ * Burns reduce outstanding supply, so the reserve sufficiency check does not
+ * apply; ACE still runs on-chain against the redeeming account.
+ */
+const processRedeem = (
+	runtime: Runtime<Config>,
+	evmClient: cre.capabilities.EVMClient,
+	parsedPayload: Payload,
+	mintingConsumerAddress: string,
+	amountWei: bigint,
+): string => {
+	const account = parsedPayload.beneficiary.account
+
+	// ========================================
+	// STEP 1: Redeem Pre-checks
+	// ========================================
+	runtime.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━')
+	runtime.log('STEP 1: Redeem Pre-checks')
+	runtime.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━')
+
+	if (parsedPayload.crossChain?.enabled) {
+		runtime.log('❌ Cross-chain transfer is not supported for redeem instructions')
+		return emitFailure(runtime, parsedPayload, {
+			code: 'INVALID_INSTRUCTION',
+			message: 'Cross-chain transfer cannot be combined with a redeem instruction',
+		})
+	}
+
+	if (amountWei <= 0n) {
+		runtime.log('❌ Redeem amount must be greater than zero')
+		return emitFailure(runtime, parsedPayload, {
+			code: 'INVALID_AMOUNT',
+			message: 'Redeem amount must be greater than zero',
+		})
+	}
+
+	runtime.log('PoR reserve check skipped: burning only reduces outstanding supply')
+
+	// ========================================
+	// STEP 2: Redeem with ACE
+	// ========================================
+	runtime.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━')
+	runtime.log('STEP 2: Redeem with ACE Policy Enforcement')
+	runtime.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━')
+
+	let redeemTxHash: string
+	try {
+		redeemTxHash = redeemWithACE(
+			runtime,
+			evmClient,
+			mintingConsumerAddress,
+			account,
+			amountWei,
+			parsedPayload.bankReference,
+		)
+	} catch (error: any) {
+		runtime.log(`❌ Redeem failed: ${error.message}`)
+		return emitFailure(runtime, parsedPayload, {
+			code: error instanceof ReportWriteError ? error.code : 'REDEEM_FAILED',
+			message: error.message,
+			details: error instanceof ReportWriteError ? error.details : undefined,
+		}, { beneficiary: account })
+	}
+
+	const result: WorkflowResult = {
+		success: true,
+		reportDelivered: true,
+		instructionType: 'REDEEM',
+		transactionId: parsedPayload.transactionId,
+		beneficiary: account,
+		amount: parsedPayload.amount,
+		currency: parsedPayload.currency,
+		redeemTransaction: redeemTxHash,
+		message: `Report delivered: Redeem ${parsedPayload.amount} ${parsedPayload.currency} from ${account} (verify on-chain)`,
+		verificationNote: 'ACE policies or insufficient balance may block execution. Verify balance and events on-chain.',
+	}
+
+	runtime.log(`\n⚠️  REDEEM REPORT DELIVERED TO CONSUMER`)
+	runtime.log(`\nResult: ${safeJsonStringify(result)}`)
+
+	return emitResult(runtime, result)
+}
+
 // ========================================
 // HTTP TRIGGER HANDLER
 // ========================================
-const onHTTPTrigger = (runtime: Runtime<Config>, payload: HTTPPayload): object => {
+const onHTTPTrigger = (runtime: Runtime<Config>, payload: HTTPPayload): string => {
 	runtime.log('=== Phase 3: PoR + ACE + CCIP Workflow ===')
 
 	// Require payload
@@ -382,8 +1369,6 @@ const onHTTPTrigger = (runtime: Runtime<Config>, payload: HTTPPayload): object =
 
 		const evmClient = new cre.capabilities.EVMClient(network.chainSelector.selector)
 
-		// Convert amount to wei
-		const amountWei = BigInt(parseFloat(parsedPayload.amount) * (10 ** runtime.config.decimals))
 		const beneficiary = parsedPayload.beneficiary.account
 		const hasCrossChain = parsedPayload.crossChain?.enabled === true
 
@@ -391,11 +1376,34 @@ const onHTTPTrigger = (runtime: Runtime<Config>, payload: HTTPPayload): object =
 		const mintingConsumerAddress = parsedPayload.basket?.mintingConsumerAddress
 			|| runtime.config.sepolia.mintingConsumerAddress
 
+		// Get stablecoin address from payload or fall back to config (used for supply reads)
+		const stablecoinAddress = parsedPayload.basket?.stablecoinAddress
+			|| runtime.config.sepolia.stablecoinAddress
+
 		runtime.log(`Using minting consumer: ${mintingConsumerAddress}`)
+		runtime.log(`Using stablecoin: ${stablecoinAddress}`)
 		if (parsedPayload.basket) {
 			runtime.log(`Basket: ${parsedPayload.basket.symbol}`)
 		}
 
+		runtime.log(`Instruction: ${parsedPayload.instructionType}`)
+
+		// Convert the amount to token units with the stablecoin's own decimals
+		const decimals = readDecimals(runtime, evmClient, stablecoinAddress)
+		let amountWei: bigint
+		try {
+			amountWei = parseTokenAmount(parsedPayload.amount, decimals)
+		} catch (error: any) {
+			if (!(error instanceof AmountError)) throw error
+			runtime.log(`❌ ${error.message}`)
+			return emitFailure(runtime, parsedPayload, { code: 'INVALID_AMOUNT', message: error.message })
+		}
+		runtime.log(`Amount: ${amountWei} units (${decimals} decimals)`)
+
+		if (parsedPayload.instructionType === 'REDEEM') {
+			return processRedeem(runtime, evmClient, parsedPayload, mintingConsumerAddress, amountWei)
+		}
+
 		// ========================================
 		// STEP 1: Proof of Reserve Validation
 		// ========================================
@@ -404,15 +1412,22 @@ const onHTTPTrigger = (runtime: Runtime<Config>, payload: HTTPPayload): object =
 		runtime.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━')
 		
 		try {
-			validateProofOfReserve(runtime, runtime.config, amountWei)
+			validateProofOfReserve(
+				runtime,
+				evmClient,
+				stablecoinAddress,
+				decimals,
+				parsedPayload.basket?.currency ?? parsedPayload.currency,
+				resolveConstituents(runtime.config, parsedPayload.basket, true),
+				amountWei,
+			)
 		} catch (error: any) {
 			runtime.log(`❌ PoR validation failed: ${error.message}`)
-			return {
-				success: false,
-				error: 'POR_INSUFFICIENT_RESERVES',
+			return emitFailure(runtime, parsedPayload, {
+				code: error instanceof PorValidationError ? error.code : 'POR_INSUFFICIENT_RESERVES',
 				message: error.message,
-				transactionId: parsedPayload.transactionId,
-			}
+				attestationTimestamp: error instanceof PorValidationError ? error.attestationTimestamp : undefined,
+			}, error instanceof PorValidationError && error.pause ? { pause: error.pause } : {})
 		}
 
 		// ========================================
@@ -445,13 +1460,11 @@ const onHTTPTrigger = (runtime: Runtime<Config>, payload: HTTPPayload): object =
 			)
 		} catch (error: any) {
 			runtime.log(`❌ Mint failed: ${error.message}`)
-			return {
-				success: false,
-				error: error.message.includes('ACE REJECTED') ? 'ACE_POLICY_REJECTED' : 'MINT_FAILED',
+			return emitFailure(runtime, parsedPayload, {
+				code: error instanceof ReportWriteError ? error.code : 'MINT_FAILED',
 				message: error.message,
-				beneficiary: beneficiary,
-				transactionId: parsedPayload.transactionId,
-			}
+				details: error instanceof ReportWriteError ? error.details : undefined,
+			}, { beneficiary })
 		}
 
 		// ========================================
@@ -479,14 +1492,14 @@ const onHTTPTrigger = (runtime: Runtime<Config>, payload: HTTPPayload): object =
 				)
 			} catch (error: any) {
 				runtime.log(`❌ CCIP transfer failed: ${error.message}`)
-				return {
-					success: false,
-					error: error.message.includes('ACE REJECTED') ? 'ACE_POLICY_REJECTED_CCIP' : 'CCIP_FAILED',
+				return emitFailure(runtime, parsedPayload, {
+					code: error instanceof ReportWriteError ? error.code : 'CCIP_FAILED',
 					message: error.message,
+					details: error instanceof ReportWriteError ? error.details : undefined,
+				}, {
 					mintTransaction: mintTxHash, // Mint succeeded but CCIP failed
 					beneficiary: ccipBeneficiary,
-					transactionId: parsedPayload.transactionId,
-				}
+				})
 			}
 		} else {
 			runtime.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━')
@@ -498,9 +1511,11 @@ const onHTTPTrigger = (runtime: Runtime<Config>, payload: HTTPPayload): object =
 		// ========================================
 		// REPORT DELIVERY RESPONSE
 		// ========================================
-		// Build result object (conditionally include CCIP fields to avoid null values)
-		const result: any = {
+		// Build result envelope (conditionally include CCIP fields to avoid null values)
+		const result: WorkflowResult = {
+			success: true,
 			reportDelivered: true,
+			instructionType: 'MINT',
 			transactionId: parsedPayload.transactionId,
 			beneficiary: beneficiary,
 			amount: parsedPayload.amount,
@@ -509,15 +1524,12 @@ const onHTTPTrigger = (runtime: Runtime<Config>, payload: HTTPPayload): object =
 			message: hasCrossChain
 				? `Reports delivered: Mint + CCIP transfer to ${parsedPayload.crossChain!.destinationChain} (verify on-chain)`
 				: `Report delivered: Mint ${parsedPayload.amount} ${parsedPayload.currency} to ${beneficiary} (verify on-chain)`,
-			etherscanMint: `https://sepolia.etherscan.io/tx/${mintTxHash}`,
 			verificationNote: 'ACE policies may block execution. Verify balance and events on-chain.',
 		}
 		
 		// Only add CCIP fields if CCIP transfer was executed
 		if (ccipTxHash) {
 			result.ccipTransaction = ccipTxHash
-			result.etherscanCCIP = `https://sepolia.etherscan.io/tx/${ccipTxHash}`
-			result.ccipExplorer = `https://ccip.chain.link`
 		}
 
 		runtime.log(`\n⚠️  REPORTS DELIVERED TO CONSUMERS`)
@@ -525,22 +1537,77 @@ const onHTTPTrigger = (runtime: Runtime<Config>, payload: HTTPPayload): object =
 		runtime.log(`   Verify on-chain to confirm actual results`)
 		runtime.log(`\nResult: ${safeJsonStringify(result)}`)
 		
-		return JSON.stringify(result)
+		return emitResult(runtime, result)
 
 	} catch (error: any) {
 		runtime.log(`❌ Workflow error: ${error.message}`)
+		emitFailure(runtime, undefined, {
+			code: error instanceof z.ZodError || error instanceof SyntaxError ? 'INVALID_PAYLOAD' : 'WORKFLOW_ERROR',
+			message: error.message,
+		})
 		throw error
 	}
 }
 
+// ========================================
+// CRON TRIGGER HANDLER
+// ========================================
+/**
+ * Scheduled PoR monitor: reports the reserve ratio of every basket in
+ * config.monitoredBaskets, so under-collateralization is caught between mints
+ */
+const onCronTrigger = (runtime: Runtime<Config>): string => {
+	runtime.log('=== PoR Monitor ===')
+
+	const network = getNetwork({
+		chainFamily: 'evm',
+		chainSelectorName: 'ethereum-testnet-sepolia',
+		isTestnet: true,
+	})
+
+	if (!network) {
+		throw new Error('Sepolia network not found')
+	}
+
+	const evmClient = new cre.capabilities.EVMClient(network.chainSelector.selector)
+	const baskets = Object.entries(runtime.config.monitoredBaskets)
+	runtime.log(`Monitoring ${baskets.length} basket(s)`)
+
+	const reports = baskets.map(([symbol, basket]) => {
+		runtime.log(`\n[Monitor] ${symbol} (${basket.stablecoinAddress})`)
+
+		try {
+			return emitMonitorReport(runtime, checkReserveRatio(runtime, evmClient, symbol, basket))
+		} catch (error: any) {
+			runtime.log(`❌ ${symbol} check failed: ${error.message}`)
+			return emitMonitorReport(runtime, {
+				symbol,
+				stablecoinAddress: basket.stablecoinAddress,
+				currency: basket.currency,
+				checkedAt: runtime.now().toISOString(),
+				error: {
+					code: error instanceof PorValidationError ? error.code : 'WORKFLOW_ERROR',
+					message: error.message,
+					attestationTimestamp: error instanceof PorValidationError ? error.attestationTimestamp : undefined,
+				},
+			})
+		}
+	})
+
+	return JSON.stringify(reports)
+}
+
 // ========================================
 // WORKFLOW INITIALIZATION
 // ========================================
 const initWorkflow = (config: Config) => {
 	const httpTrigger = new cre.capabilities.HTTPCapability()
+	const cron = new cre.capabilities.CronCapability()
 
+	// Trigger indexes are part of the backend's contract: 0 = mint/redeem, 1 = PoR monitor
 	return [
 		cre.handler(httpTrigger.trigger({}), onHTTPTrigger),
+		cre.handler(cron.trigger({ schedule: config.schedule }), onCronTrigger),
 	]
 }
 
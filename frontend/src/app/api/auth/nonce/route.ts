@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { NONCE_COOKIE } from "@/lib/wallet-session";
+import { backendUrl } from "@/lib/backend";
+
+const NONCE_TTL_SECONDS = 10 * 60;
+const API_KEY = process.env.MINT_API_KEY || "";
+
+/**
+ * Issues a single-use nonce for the SIWE message the wallet is about to sign.
+ * The nonce comes from the backend, which only accepts sessions signed with one it issued.
+ */
+export async function GET() {
+  try {
+    const backendResponse = await fetch(backendUrl("/auth/nonce"), {
+      method: "POST",
+      headers: { "x-api-key": API_KEY },
+      cache: "no-store",
+    });
+    const data = await backendResponse.json();
+
+    if (!backendResponse.ok || typeof data.nonce !== "string") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: data.error || "BACKEND_ERROR",
+          message: data.message || "Failed to get a sign-in nonce",
+        },
+        { status: backendResponse.ok ? 502 : backendResponse.status }
+      );
+    }
+
+    const response = NextResponse.json({ nonce: data.nonce });
+
+    response.cookies.set(NONCE_COOKIE, data.nonce, {
+      httpOnly: true,
+      sameSite: "strict",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: NONCE_TTL_SECONDS,
+    });
+
+    return response;
+  } catch (error: any) {
+    console.error("[Wallet Nonce Error]", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "INTERNAL_ERROR",
+        message: error.message || "Failed to get a sign-in nonce",
+      },
+      { status: 500 }
+    );
+  }
+}
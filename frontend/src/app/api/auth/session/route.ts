@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, readWalletSession } from "@/lib/wallet-session";
+
+/**
+ * Reports the signed-in wallet, if any.
+ */
+export async function GET(request: NextRequest) {
+  const session = readWalletSession(request);
+
+  return NextResponse.json({
+    signedIn: Boolean(session),
+    address: session?.address ?? null,
+    expiresAt: session?.expiresAt ?? null,
+  });
+}
+
+/**
+ * Signs out.
+ */
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createPublicClient, http } from "viem";
+import { sepolia } from "viem/chains";
+import { parseSiweMessage, verifySiweMessage } from "viem/siwe";
+import { NONCE_COOKIE, SESSION_COOKIE, encodeWalletSession } from "@/lib/wallet-session";
+
+// Sessions are the signed message itself, so cap how long one may be replayed
+const MAX_SESSION_MS = 24 * 60 * 60 * 1000;
+
+const publicClient = createPublicClient({ chain: sepolia, transport: http() });
+
+function rejected(message: string) {
+  return NextResponse.json({ success: false, error: "INVALID_SIGNATURE", message }, { status: 401 });
+}
+
+/**
+ * Verifies a signed SIWE message against the nonce cookie and this site's host,
+ * then stores it as the wallet session forwarded to the backend.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { message, signature } = await request.json();
+    const nonce = request.cookies.get(NONCE_COOKIE)?.value;
+
+    if (typeof message !== "string" || typeof signature !== "string") {
+      return NextResponse.json(
+        { success: false, error: "VALIDATION_ERROR", message: "message and signature are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!nonce) {
+      return rejected("Sign-in nonce missing or expired; request a new one");
+    }
+
+    const parsed = parseSiweMessage(message);
+    const expiresAt = parsed.expirationTime?.getTime();
+
+    if (!expiresAt || expiresAt <= Date.now() || expiresAt > Date.now() + MAX_SESSION_MS) {
+      return rejected("SIWE message must expire within 24 hours");
+    }
+
+    const valid = await verifySiweMessage(publicClient, {
+      message,
+      signature: signature as `0x${string}`,
+      domain: request.headers.get("host") ?? undefined,
+      nonce,
+    });
+
+    if (!valid || !parsed.address) {
+      return rejected("Signature does not match the sign-in message");
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      address: parsed.address,
+      expiresAt: new Date(expiresAt).toISOString(),
+    });
+
+    response.cookies.set(SESSION_COOKIE, encodeWalletSession(message, signature), {
+      httpOnly: true,
+      sameSite: "strict",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      expires: new Date(expiresAt),
+    });
+    response.cookies.delete(NONCE_COOKIE);
+
+    return response;
+  } catch (error: any) {
+    console.error("[Wallet Sign-In Error]", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "INTERNAL_ERROR",
+        message: error.message || "Failed to verify wallet signature",
+      },
+      { status: 500 }
+    );
+  }
+}
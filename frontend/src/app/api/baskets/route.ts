@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { backendUrl } from "@/lib/backend";
+
+const API_KEY = process.env.MINT_API_KEY || "";
+
+/**
+ * Proxy endpoint for listing the backend basket registry (active and disabled baskets).
+ */
+export async function GET() {
+  try {
+    const response = await fetch(backendUrl("/baskets"), {
+      headers: { "x-api-key": API_KEY },
+      cache: "no-store",
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: data.error || "BACKEND_ERROR",
+          message: data.message || "Failed to load baskets",
+        },
+        { status: response.status }
+      );
+    }
+
+    return NextResponse.json(data);
+  } catch (error: any) {
+    console.error("[Baskets Error]", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "INTERNAL_ERROR",
+        message: error.message || "Failed to load baskets",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { notSignedIn, readWalletSession, walletHeaders } from "@/lib/wallet-session";
+import { backendUrl } from "@/lib/backend";
+
+const API_KEY = process.env.MINT_API_KEY || "";
+
+/**
+ * Proxy endpoint for polling a backend mint/redeem job.
+ * The backend only returns jobs requested by the signed-in wallet.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const session = readWalletSession(request);
+    if (!session) {
+      return notSignedIn();
+    }
+
+    const response = await fetch(backendUrl(`/jobs/${encodeURIComponent(params.jobId)}`), {
+      headers: { "x-api-key": API_KEY, ...walletHeaders(session) },
+      cache: "no-store",
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: data.error || "BACKEND_ERROR",
+          message: data.message || "Failed to fetch job status",
+        },
+        { status: response.status }
+      );
+    }
+
+    return NextResponse.json(data);
+  } catch (error: any) {
+    console.error("[Job Status Error]", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "INTERNAL_ERROR",
+        message: error.message || "Failed to fetch job status",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-
-// Real backend API URL
-const BACKEND_URL = process.env.NEXT_PUBLIC_MINT_API_URL || 
-  "http://ec2-3-27-63-126.ap-southeast-2.compute.amazonaws.com:3001/mint";
+import { validateAmount } from "@/lib/amounts";
+import { notSignedIn, readWalletSession, walletHeaders } from "@/lib/wallet-session";
+import { forwardedFor } from "@/lib/forwarded-for";
+import { backendUrl } from "@/lib/backend";
 
 // API key (kept server-side for security)
 const API_KEY = process.env.MINT_API_KEY || "";
@@ -14,11 +14,20 @@ const API_KEY = process.env.MINT_API_KEY || "";
  */
 export async function POST(request: NextRequest) {
   try {
+    // The backend checks that the signed-in wallet may request this
+    const session = readWalletSession(request);
+    if (!session) {
+      return notSignedIn();
+    }
+
     const body = await request.json();
+    const idempotencyKey = request.headers.get("idempotency-key");
+    const clientChain = forwardedFor(request);
 
     // Extract fields from frontend request
     const beneficiaryAddress = body.beneficiary?.account || body.beneficiary;
-    const amount = body.amount;
+    // Validated and forwarded trimmed, so the backend gets the amount that was checked
+    const amount = typeof body.amount === "string" ? body.amount.trim() : body.amount;
     const basket = body.basket || "DUSD"; // Default to DUSD
 
     // Validate required fields
@@ -29,9 +38,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!amount || isNaN(Number(amount)) || Number(amount) <= 0) {
+    // The backend checks decimal places against the token's decimals()
+    const amountError = validateAmount(amount);
+    if (amountError) {
       return NextResponse.json(
-        { error: "Invalid amount" },
+        { error: "Invalid amount", message: amountError },
         { status: 400 }
       );
     }
@@ -43,16 +54,20 @@ export async function POST(request: NextRequest) {
     });
 
     // Forward to real backend
-    const backendResponse = await fetch(BACKEND_URL, {
+    const backendResponse = await fetch(backendUrl("/mint"), {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         "x-api-key": API_KEY,
+        ...walletHeaders(session),
+        // Lets the backend rate-limit per end user rather than per proxy (with TRUST_PROXY set)
+        ...(clientChain ? { "X-Forwarded-For": clientChain } : {}),
+        ...(idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
       },
       body: JSON.stringify({
         beneficiary: beneficiaryAddress,
         basket: basket,
-        amount: amount.toString(),
+        amount,
       }),
     });
 
@@ -60,12 +75,18 @@ export async function POST(request: NextRequest) {
 
     if (!backendResponse.ok) {
       console.error("Backend error:", backendData);
+      // Pass rate-limit / quota retry hints through to the browser
+      const retryAfter = backendResponse.headers.get("retry-after");
       return NextResponse.json(
         {
           error: backendData.error || "Backend request failed",
+          message: backendData.message,
           details: backendData,
         },
-        { status: backendResponse.status }
+        {
+          status: backendResponse.status,
+          ...(retryAfter ? { headers: { "Retry-After": retryAfter } } : {}),
+        }
       );
     }
 
@@ -75,6 +96,7 @@ export async function POST(request: NextRequest) {
       success: true,
       message: `Mint request submitted for ${amount} ${basket} tokens`,
       transactionId: backendData.transactionId || backendData.txHash,
+      jobId: backendData.jobId,
       data: backendData,
     });
   } catch (error) {
@@ -93,7 +115,7 @@ export async function GET() {
   return NextResponse.json({
     service: "Basket Mint API Proxy",
     status: "healthy",
-    backend: BACKEND_URL,
+    backend: backendUrl("/mint"),
     endpoints: {
       "POST /api/mint": "Submit a mint request to CRE workflow backend",
     },
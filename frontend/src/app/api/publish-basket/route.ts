@@ -1,12 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
+import { notSignedIn, readWalletSession, walletHeaders } from "@/lib/wallet-session";
+import { backendUrl } from "@/lib/backend";
 
-const BACKEND_URL = process.env.NEXT_PUBLIC_MINT_API_URL?.replace('/mint', '') || '';
 const API_KEY = process.env.MINT_API_KEY || '';
 
 export async function POST(request: NextRequest) {
   try {
+    // Only the stablecoin's owner may publish; the backend checks the signed-in wallet
+    const session = readWalletSession(request);
+    if (!session) {
+      return notSignedIn();
+    }
+
     const body = await request.json();
-    const { name, symbol, stablecoinAddress, mintingConsumerAddress } = body;
+    const { name, symbol, stablecoinAddress, mintingConsumerAddress, currency, reserveSource, constituents, creationTxHash } = body;
 
     // Validate required fields
     if (!name || !symbol || !stablecoinAddress || !mintingConsumerAddress) {
@@ -23,17 +30,22 @@ export async function POST(request: NextRequest) {
     console.log("[Publish Basket] Publishing to backend:", { name, symbol, stablecoinAddress, mintingConsumerAddress });
 
     // Call the real backend
-    const response = await fetch(`${BACKEND_URL}/publish-basket`, {
+    const response = await fetch(backendUrl("/publish-basket"), {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         "x-api-key": API_KEY,
+        ...walletHeaders(session),
       },
       body: JSON.stringify({
         name,
         symbol,
         stablecoinAddress,
         mintingConsumerAddress,
+        currency,
+        reserveSource,
+        constituents,
+        creationTxHash,
       }),
     });
 
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { validateAmount } from "@/lib/amounts";
+import { notSignedIn, readWalletSession, walletHeaders } from "@/lib/wallet-session";
+import { forwardedFor } from "@/lib/forwarded-for";
+import { backendUrl } from "@/lib/backend";
+
+// API key (kept server-side for security)
+const API_KEY = process.env.MINT_API_KEY || "";
+
+/**
+ * Proxy API endpoint for triggering redeem (burn) requests.
+ * Forwards requests to the CRE workflow backend, keeping the API key server-side.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // The backend checks that the signed-in wallet may request this
+    const session = readWalletSession(request);
+    if (!session) {
+      return notSignedIn();
+    }
+
+    const body = await request.json();
+    const idempotencyKey = request.headers.get("idempotency-key");
+    const clientChain = forwardedFor(request);
+
+    const account = body.account;
+    // Validated and forwarded trimmed, so the backend gets the amount that was checked
+    const amount = typeof body.amount === "string" ? body.amount.trim() : body.amount;
+    const basket = body.basket || "DUSD"; // Default to DUSD
+
+    // Validate required fields
+    if (!account) {
+      return NextResponse.json(
+        { error: "Missing account address" },
+        { status: 400 }
+      );
+    }
+
+    // The backend checks decimal places against the token's decimals()
+    const amountError = validateAmount(amount);
+    if (amountError) {
+      return NextResponse.json(
+        { error: "Invalid amount", message: amountError },
+        { status: 400 }
+      );
+    }
+
+    console.log("Redeem request - forwarding to backend:", {
+      account,
+      basket,
+      amount,
+    });
+
+    const backendResponse = await fetch(backendUrl("/redeem"), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": API_KEY,
+        ...walletHeaders(session),
+        // Lets the backend rate-limit per end user rather than per proxy (with TRUST_PROXY set)
+        ...(clientChain ? { "X-Forwarded-For": clientChain } : {}),
+        ...(idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
+      },
+      body: JSON.stringify({
+        account,
+        basket,
+        amount,
+      }),
+    });
+
+    const backendData = await backendResponse.json();
+
+    if (!backendResponse.ok) {
+      console.error("Backend error:", backendData);
+      // Pass rate-limit / quota retry hints through to the browser
+      const retryAfter = backendResponse.headers.get("retry-after");
+      return NextResponse.json(
+        {
+          error: backendData.error || "Backend request failed",
+          message: backendData.message,
+          details: backendData,
+        },
+        {
+          status: backendResponse.status,
+          ...(retryAfter ? { headers: { "Retry-After": retryAfter } } : {}),
+        }
+      );
+    }
+
+    console.log("Backend response:", backendData);
+
+    return NextResponse.json({
+      success: true,
+      message: `Redeem request submitted for ${amount} ${basket} tokens`,
+      transactionId: backendData.transactionId || backendData.txHash,
+      jobId: backendData.jobId,
+      data: backendData,
+    });
+  } catch (error) {
+    console.error("Redeem request error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to process redeem request",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
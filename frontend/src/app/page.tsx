@@ -2,7 +2,7 @@
 
 import { useState, useCallback } from "react";
 import { useAccount } from "wagmi";
-import { Header, CreateBasket, MintRequest, VerifyBalance } from "@/components";
+import { Header, CreateBasket, MintRequest, VerifyBalance, Redeem } from "@/components";
 import { BasketCreatedResult } from "@/hooks/useBasketFactory";
 
 export default function Home() {
@@ -97,6 +97,7 @@ export default function Home() {
           <CreateBasket onBasketCreated={handleBasketCreated} />
           <MintRequest basket={currentBasket} onMintComplete={handleMintComplete} />
           <VerifyBalance basket={currentBasket} />
+          <Redeem onRedeemComplete={handleMintComplete} />
         </div>
 
         {/* Info Cards */}
@@ -3,7 +3,52 @@
 import { useState, useEffect } from "react";
 import { useAccount } from "wagmi";
 import { useCreateBasket, BasketCreatedResult } from "@/hooks/useBasketFactory";
-import { usePublishBasket } from "@/hooks/usePublishBasket";
+import { usePublishBasket, type BasketConstituent } from "@/hooks/usePublishBasket";
+
+// Denominations the workflow can convert reserves into (see fxRates in the workflow config)
+const CURRENCIES = ["USD", "AUD", "EUR", "GBP", "SGD"];
+
+// One row of the composition editor; weight is a percentage as typed
+interface ConstituentInput {
+  asset: string;
+  weight: string;
+  url: string;
+  currency: string;
+}
+
+function toConstituents(rows: ConstituentInput[]): BasketConstituent[] {
+  return rows.map((row) => ({
+    asset: row.asset.trim(),
+    weightBps: Math.round(Number(row.weight) * 100),
+    reserveSource: { url: row.url.trim(), currency: row.currency },
+  }));
+}
+
+/**
+ * Mirrors the backend's checks so a bad composition is caught before the basket is deployed
+ */
+function compositionError(rows: ConstituentInput[]): string | null {
+  if (rows.length === 0) return null;
+
+  const constituents = toConstituents(rows);
+  if (constituents.some((c) => !/^[\w.-]{1,32}$/.test(c.asset))) {
+    return "Each asset needs a name (letters, digits, dots, dashes or underscores)";
+  }
+  if (new Set(constituents.map((c) => c.asset)).size !== constituents.length) {
+    return "Asset names must be unique";
+  }
+  if (constituents.some((c) => !/^https:\/\/[^\s/]+/.test(c.reserveSource.url))) {
+    return "Each asset needs an https:// reserve URL";
+  }
+  if (constituents.some((c) => !Number.isInteger(c.weightBps) || c.weightBps <= 0)) {
+    return "Weights must be positive percentages";
+  }
+  const total = constituents.reduce((sum, c) => sum + c.weightBps, 0);
+  if (total !== 10_000) {
+    return `Weights add up to ${total / 100}%, not 100%`;
+  }
+  return null;
+}
 
 interface CreateBasketProps {
   onBasketCreated: (result: BasketCreatedResult) => void;
@@ -14,6 +59,10 @@ export function CreateBasket({ onBasketCreated }: CreateBasketProps) {
   const [name, setName] = useState("Basket USD");
   const [symbol, setSymbol] = useState("bUSD");
   const [admin, setAdmin] = useState("");
+  const [currency, setCurrency] = useState("USD");
+  // Empty means a single reserve source configured in the workflow
+  const [composition, setComposition] = useState<ConstituentInput[]>([]);
+  const compositionProblem = compositionError(composition);
 
   const {
     createBasket,
@@ -56,13 +105,24 @@ export function CreateBasket({ onBasketCreated }: CreateBasketProps) {
         symbol: result.symbol,
         stablecoinAddress: result.stablecoinAddress,
         mintingConsumerAddress: result.mintingConsumerAddress,
+        currency,
+        ...(composition.length > 0 ? { constituents: toConstituents(composition) } : {}),
+        creationTxHash: result.txHash,
       });
     }
-  }, [result, isPublished, isPublishing, publishError, publishBasket]);
+  }, [result, isPublished, isPublishing, publishError, publishBasket, currency, composition]);
+
+  const updateConstituent = (index: number, change: Partial<ConstituentInput>) => {
+    setComposition((rows) => rows.map((row, i) => (i === index ? { ...row, ...change } : row)));
+  };
+
+  const addConstituent = () => {
+    setComposition((rows) => [...rows, { asset: "", weight: rows.length === 0 ? "100" : "", url: "", currency }]);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!name || !symbol || !admin) return;
+    if (!name || !symbol || !admin || compositionProblem) return;
 
     try {
       await createBasket(name, symbol, admin as `0x${string}`);
@@ -217,6 +277,104 @@ export function CreateBasket({ onBasketCreated }: CreateBasketProps) {
             />
           </div>
 
+          <div>
+            <label htmlFor="currency" className="label">
+              Currency
+              <span className="text-slate-500 font-normal ml-2">
+                (what one token is worth)
+              </span>
+            </label>
+            <select
+              id="currency"
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              className="input"
+              disabled={isLoading}
+            >
+              {CURRENCIES.map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <p className="label">
+              Reserve Composition
+              <span className="text-slate-500 font-normal ml-2">
+                (optional; each asset must back its share of supply)
+              </span>
+            </p>
+            <div className="space-y-2">
+              {composition.map((row, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2">
+                  <input
+                    type="text"
+                    value={row.asset}
+                    onChange={(e) => updateConstituent(index, { asset: e.target.value })}
+                    placeholder="USD-TBILLS"
+                    className="input col-span-3 text-sm"
+                    disabled={isLoading}
+                    aria-label="Asset"
+                  />
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={row.weight}
+                    onChange={(e) => updateConstituent(index, { weight: e.target.value })}
+                    placeholder="%"
+                    className="input col-span-2 text-sm"
+                    disabled={isLoading}
+                    aria-label="Weight (%)"
+                  />
+                  <input
+                    type="text"
+                    value={row.url}
+                    onChange={(e) => updateConstituent(index, { url: e.target.value })}
+                    placeholder="https://... reserve attestation"
+                    className="input col-span-4 text-sm"
+                    disabled={isLoading}
+                    aria-label="Reserve URL"
+                  />
+                  <select
+                    value={row.currency}
+                    onChange={(e) => updateConstituent(index, { currency: e.target.value })}
+                    className="input col-span-2 text-sm"
+                    disabled={isLoading}
+                    aria-label="Reserve currency"
+                  >
+                    {CURRENCIES.map((code) => (
+                      <option key={code} value={code}>
+                        {code}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => setComposition((rows) => rows.filter((_, i) => i !== index))}
+                    className="col-span-1 text-slate-400 hover:text-red-400"
+                    disabled={isLoading}
+                    aria-label="Remove asset"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={addConstituent}
+              className="text-indigo-400 hover:text-indigo-300 text-sm mt-2"
+              disabled={isLoading}
+            >
+              + Add reserve asset
+            </button>
+            {compositionProblem && (
+              <p className="text-xs text-red-400 mt-1">{compositionProblem}</p>
+            )}
+          </div>
+
           <div>
             <label htmlFor="admin" className="label">
               Admin Address
@@ -261,7 +419,7 @@ export function CreateBasket({ onBasketCreated }: CreateBasketProps) {
 
           <button
             type="submit"
-            disabled={isLoading || !name || !symbol || !admin}
+            disabled={isLoading || !name || !symbol || !admin || !!compositionProblem}
             className="btn-primary w-full flex items-center justify-center gap-2"
           >
             {isLoading ? (
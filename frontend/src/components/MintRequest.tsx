@@ -1,23 +1,13 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect } from "react";
 import { useAccount } from "wagmi";
 import { useMintRequest } from "@/hooks/useMintRequest";
+import { useBaskets } from "@/hooks/useBaskets";
+import { useStablecoinBalance } from "@/hooks/useStablecoin";
+import { validateAmount } from "@/lib/amounts";
 import { BasketCreatedResult } from "@/hooks/useBasketFactory";
 
-// Default supported baskets from backend
-const DEFAULT_BASKETS = [
-  { id: "DUSD", name: "Demo USD", symbol: "DUSD", isDefault: true },
-  { id: "AUDT", name: "AUD Token", symbol: "AUDT", isDefault: true },
-];
-
-interface BasketOption {
-  id: string;
-  name: string;
-  symbol: string;
-  isDefault?: boolean;
-}
-
 interface MintRequestProps {
   basket: BasketCreatedResult | null;
   onMintComplete: () => void;
@@ -28,44 +18,32 @@ export function MintRequest({ basket, onMintComplete }: MintRequestProps) {
   const [amount, setAmount] = useState("1000");
   const [beneficiary, setBeneficiary] = useState("");
   const [selectedBasket, setSelectedBasket] = useState("DUSD");
-  const [availableBaskets, setAvailableBaskets] = useState<BasketOption[]>(DEFAULT_BASKETS);
 
-  const { requestMint, isLoading, result, error, reset } = useMintRequest();
+  const { requestMint, isLoading, jobStatus, result, error, reset } = useMintRequest();
+  const { baskets: availableBaskets, isLoading: isLoadingBaskets, error: basketsError, refresh: refreshBaskets } = useBaskets();
 
-  // Load user-created baskets from localStorage
-  const loadUserBaskets = useCallback(() => {
-    try {
-      const stored = localStorage.getItem("basket_baskets");
-      if (stored) {
-        const userBaskets = JSON.parse(stored) as Array<{
-          name: string;
-          symbol: string;
-          stablecoinAddress: string;
-        }>;
-        const userBasketOptions: BasketOption[] = userBaskets.map((b) => ({
-          id: b.symbol,
-          name: b.name,
-          symbol: b.symbol,
-          isDefault: false,
-        }));
-        // Combine default + user baskets, avoiding duplicates by symbol
-        const allBaskets = [...DEFAULT_BASKETS];
-        userBasketOptions.forEach((ub) => {
-          if (!allBaskets.find((b) => b.symbol === ub.symbol)) {
-            allBaskets.push(ub);
-          }
-        });
-        setAvailableBaskets(allBaskets);
-      }
-    } catch (e) {
-      console.error("Failed to load user baskets:", e);
+  // Validate against the selected token's own decimals
+  const selected = availableBaskets.find((b) => b.symbol === selectedBasket);
+  const { decimals } = useStablecoinBalance(selected?.stablecoinAddress as `0x${string}` | undefined);
+  const amountError = amount ? validateAmount(amount, decimals) : null;
+
+  // Reload the registry when a new basket has been created
+  useEffect(() => {
+    if (basket) {
+      refreshBaskets();
     }
-  }, []);
+  }, [basket, refreshBaskets]);
 
-  // Load baskets on mount and when basket prop changes
+  // Fall back to the first active basket if the selection is unavailable
   useEffect(() => {
-    loadUserBaskets();
-  }, [loadUserBaskets, basket]);
+    const selected = availableBaskets.find((b) => b.symbol === selectedBasket);
+    if (!selected || selected.status !== "active") {
+      const firstActive = availableBaskets.find((b) => b.status === "active");
+      if (firstActive) {
+        setSelectedBasket(firstActive.symbol);
+      }
+    }
+  }, [availableBaskets, selectedBasket]);
 
   // Set beneficiary to connected wallet by default
   useEffect(() => {
@@ -83,7 +61,7 @@ export function MintRequest({ basket, onMintComplete }: MintRequestProps) {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!amount || !beneficiary) return;
+    if (!amount || amountError || !beneficiary) return;
 
     await requestMint(
       amount,
@@ -157,36 +135,48 @@ export function MintRequest({ basket, onMintComplete }: MintRequestProps) {
               className="input"
               disabled={isLoading}
             >
+              {isLoadingBaskets && availableBaskets.length === 0 && (
+                <option value={selectedBasket}>Loading baskets...</option>
+              )}
               {availableBaskets.map((b) => (
-                <option key={b.id} value={b.id}>
-                  {b.name} ({b.symbol}){b.isDefault ? "" : " ✨"}
+                <option key={b.symbol} value={b.symbol} disabled={b.status !== "active"}>
+                  {b.name} ({b.symbol}){b.status !== "active" ? ` - ${b.status}` : ""}
                 </option>
               ))}
             </select>
-            {availableBaskets.length > DEFAULT_BASKETS.length && (
-              <p className="text-xs text-emerald-400 mt-1">
-                ✨ = Your published baskets
+            {basketsError && (
+              <p className="text-xs text-red-400 mt-1">
+                Could not load baskets: {basketsError}
               </p>
             )}
+            {availableBaskets
+              .filter((b) => b.status === "paused")
+              .map((b) => (
+                <p key={b.symbol} className="text-xs text-amber-400 mt-1">
+                  {b.symbol} minting is paused: {b.pause?.reason ?? "reserves fell below supply"}
+                </p>
+              ))}
           </div>
 
           <div>
             <label htmlFor="amount" className="label">
               Amount
-              <span className="text-slate-500 font-normal ml-2">(in {selectedBasket})</span>
+              <span className="text-slate-500 font-normal ml-2">(in {selectedBasket}, {selected?.currency ?? "USD"})</span>
             </label>
             <input
               id="amount"
-              type="number"
+              type="text"
+              inputMode="decimal"
               value={amount}
               onChange={(e) => setAmount(e.target.value)}
               placeholder="e.g., 1000"
               className="input"
               disabled={isLoading}
               required
-              min="1"
-              step="1"
             />
+            {amountError && (
+              <p className="text-xs text-red-400 mt-1">{amountError}</p>
+            )}
           </div>
 
           <div>
@@ -209,7 +199,30 @@ export function MintRequest({ basket, onMintComplete }: MintRequestProps) {
             />
           </div>
 
-          {error && (
+          {result?.errorCode === "POR_STALE" ? (
+            <div className="bg-amber-500/10 border border-amber-500/30 rounded-lg p-3">
+              <p className="text-amber-400 text-sm font-medium">Reserve attestation is out of date</p>
+              <p className="text-amber-300/70 text-xs mt-1">
+                Last attested{" "}
+                {result.attestationTimestamp && !isNaN(Date.parse(result.attestationTimestamp))
+                  ? new Date(result.attestationTimestamp).toLocaleString()
+                  : "at an unknown time"}
+                . Minting resumes once the reserve attestation is refreshed.
+              </p>
+            </div>
+          ) : result?.policyRejection ? (
+            <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-3">
+              <p className="text-red-400 text-sm font-medium">Rejected by compliance policy</p>
+              <p className="text-red-300/70 text-xs mt-1">
+                {result.policyRejection.reason || "No reason given"}
+              </p>
+              {result.policyRejection.policy && (
+                <p className="text-red-300/50 text-xs mt-1 font-mono break-all">
+                  Policy {result.policyRejection.policy}
+                </p>
+              )}
+            </div>
+          ) : error && (
             <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-3 text-red-400 text-sm">
               {error}
             </div>
@@ -232,7 +245,7 @@ export function MintRequest({ basket, onMintComplete }: MintRequestProps) {
 
           <button
             type="submit"
-            disabled={isLoading || !amount || !beneficiary}
+            disabled={isLoading || !amount || !!amountError || !beneficiary}
             className="btn-primary w-full flex items-center justify-center gap-2"
           >
             {isLoading ? (
@@ -257,7 +270,11 @@ export function MintRequest({ basket, onMintComplete }: MintRequestProps) {
                     d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                   />
                 </svg>
-                Submitting request...
+                {jobStatus === "queued"
+                  ? "Queued for CRE workflow..."
+                  : jobStatus === "running"
+                    ? "Running CRE workflow..."
+                    : "Submitting request..."}
               </>
             ) : (
               <>
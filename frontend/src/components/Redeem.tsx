@@ -0,0 +1,211 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useAccount } from "wagmi";
+import { useRedeemRequest } from "@/hooks/useRedeemRequest";
+import { useBaskets } from "@/hooks/useBaskets";
+import { useStablecoinBalance } from "@/hooks/useStablecoin";
+import { validateAmount } from "@/lib/amounts";
+
+interface RedeemProps {
+  onRedeemComplete: () => void;
+}
+
+export function Redeem({ onRedeemComplete }: RedeemProps) {
+  const { address, isConnected } = useAccount();
+  const [amount, setAmount] = useState("100");
+  const [account, setAccount] = useState("");
+  const [selectedBasket, setSelectedBasket] = useState("DUSD");
+
+  const { requestRedeem, isLoading, jobStatus, result, error, reset } = useRedeemRequest();
+  const { baskets } = useBaskets();
+  // Paused baskets only stop minting; redeeming reduces their supply
+  const redeemableBaskets = baskets.filter((b) => b.status === "active" || b.status === "paused");
+
+  // Validate against the selected token's own decimals
+  const selected = baskets.find((b) => b.symbol === selectedBasket);
+  const { decimals } = useStablecoinBalance(selected?.stablecoinAddress as `0x${string}` | undefined);
+  const amountError = amount ? validateAmount(amount, decimals) : null;
+
+  // Redeem from the connected wallet by default
+  useEffect(() => {
+    if (address && !account) {
+      setAccount(address);
+    }
+  }, [address, account]);
+
+  // Notify parent when redeem completes
+  useEffect(() => {
+    if (result?.success) {
+      onRedeemComplete();
+    }
+  }, [result, onRedeemComplete]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!amount || amountError || !account) return;
+
+    await requestRedeem(amount, account, selectedBasket);
+  };
+
+  const isDisabled = !isConnected;
+
+  return (
+    <div className={`card ${isDisabled ? "opacity-50" : ""}`}>
+      <div className="flex items-center gap-3 mb-6">
+        <div className={`step-indicator ${isConnected ? "step-active" : "step-inactive"}`}>
+          4
+        </div>
+        <div>
+          <h2 className="text-xl font-bold text-white">Redeem</h2>
+          <p className="text-sm text-slate-400">
+            Burn stablecoins for an off-ramp payout
+          </p>
+        </div>
+      </div>
+
+      {!isConnected ? (
+        <div className="bg-slate-900/50 rounded-lg p-8 text-center">
+          <p className="text-slate-400 mb-2">Connect wallet first</p>
+          <p className="text-sm text-slate-500">
+            You need to connect your wallet to request a redemption
+          </p>
+        </div>
+      ) : result?.success ? (
+        <div className="space-y-4">
+          <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-4">
+            <div className="flex items-center gap-2 text-green-400 mb-3">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+              <span className="font-semibold">Redeem Request Submitted!</span>
+            </div>
+
+            <div className="space-y-2 text-sm">
+              <p className="text-slate-300">{result.message}</p>
+              {result.transactionId && (
+                <p className="text-slate-400">
+                  Reference: <span className="text-indigo-400 font-mono">{result.transactionId}</span>
+                </p>
+              )}
+              <p className="text-slate-400 text-xs mt-2">
+                The CRE workflow will burn the tokens once ACE policies pass.
+                Check the Verify section to see your updated balance.
+              </p>
+            </div>
+          </div>
+
+          <button onClick={reset} className="btn-secondary w-full">
+            Request Another Redemption
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="redeem-basket" className="label">
+              Select Basket
+            </label>
+            <select
+              id="redeem-basket"
+              value={selectedBasket}
+              onChange={(e) => setSelectedBasket(e.target.value)}
+              className="input"
+              disabled={isLoading}
+            >
+              {redeemableBaskets.map((b) => (
+                <option key={b.symbol} value={b.symbol}>
+                  {b.name} ({b.symbol})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="redeem-amount" className="label">
+              Amount
+              <span className="text-slate-500 font-normal ml-2">(in {selectedBasket}, {selected?.currency ?? "USD"})</span>
+            </label>
+            <input
+              id="redeem-amount"
+              type="text"
+              inputMode="decimal"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="e.g., 100"
+              className="input"
+              disabled={isLoading}
+              required
+            />
+            {amountError && (
+              <p className="text-xs text-red-400 mt-1">{amountError}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="redeem-account" className="label">
+              Account
+              <span className="text-slate-500 font-normal ml-2">
+                (whose tokens are burned)
+              </span>
+            </label>
+            <input
+              id="redeem-account"
+              type="text"
+              value={account}
+              onChange={(e) => setAccount(e.target.value)}
+              placeholder="0x..."
+              className="input font-mono text-sm"
+              disabled={isLoading}
+              required
+              pattern="^0x[a-fA-F0-9]{40}$"
+            />
+          </div>
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-3 text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isLoading || !amount || !!amountError || !account}
+            className="btn-primary w-full flex items-center justify-center gap-2"
+          >
+            {isLoading ? (
+              <>
+                <svg
+                  className="animate-spin h-5 w-5"
+                  xmlns="http://www.w3.org/2000/svg"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                >
+                  <circle
+                    className="opacity-25"
+                    cx="12"
+                    cy="12"
+                    r="10"
+                    stroke="currentColor"
+                    strokeWidth="4"
+                  />
+                  <path
+                    className="opacity-75"
+                    fill="currentColor"
+                    d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                  />
+                </svg>
+                {jobStatus === "queued"
+                  ? "Queued for CRE workflow..."
+                  : jobStatus === "running"
+                    ? "Running CRE workflow..."
+                    : "Submitting request..."}
+              </>
+            ) : (
+              <span>Request Redeem</span>
+            )}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
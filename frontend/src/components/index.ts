@@ -2,3 +2,4 @@ export { Header } from "./Header";
 export { CreateBasket } from "./CreateBasket";
 export { MintRequest } from "./MintRequest";
 export { VerifyBalance } from "./VerifyBalance";
+export { Redeem } from "./Redeem";
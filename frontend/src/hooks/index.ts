@@ -1,3 +1,6 @@
 export { useCreateBasket, type BasketCreatedResult } from "./useBasketFactory";
 export { useStablecoinBalance } from "./useStablecoin";
 export { useMintRequest, type MintRequestResult } from "./useMintRequest";
+export { useRedeemRequest, type RedeemRequestResult } from "./useRedeemRequest";
+export { useBaskets, type Basket, type BasketStatus } from "./useBaskets";
+export { useWalletSession } from "./useWalletSession";
@@ -0,0 +1,69 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { BasketConstituent, ReserveSource } from "./usePublishBasket";
+
+export type BasketStatus = "active" | "disabled" | "paused" | "archived";
+
+// Set while a basket is paused because its reserves fell below supply
+export interface BasketPause {
+  reason: string;
+  totalSupply: string;
+  totalReserves: string;
+  source: "mint" | "monitor";
+  transactionId?: string;
+  at: string;
+}
+
+export interface Basket {
+  name: string;
+  symbol: string;
+  stablecoinAddress: string;
+  mintingConsumerAddress: string;
+  currency?: string;
+  reserveSource?: ReserveSource;
+  constituents?: BasketConstituent[];
+  status: BasketStatus;
+  pause?: BasketPause;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Loads the basket registry from the backend (via /api/baskets).
+ * Call refresh() after publishing a basket to pick it up.
+ */
+export function useBaskets() {
+  const [baskets, setBaskets] = useState<Basket[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/baskets", { cache: "no-store" });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || data.error || `HTTP error! status: ${response.status}`);
+      }
+
+      setBaskets(data.baskets as Basket[]);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to load baskets";
+      console.error("Failed to load baskets:", err);
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { baskets, isLoading, error, refresh };
+}
@@ -2,20 +2,30 @@
 
 import { useState } from "react";
 import { useAccount } from "wagmi";
+import { waitForJob, type JobStatus } from "@/lib/jobs";
+import { useWalletSession } from "./useWalletSession";
 
 export interface MintRequestResult {
   success: boolean;
   transactionId?: string;
   message?: string;
   error?: string;
+  // Backend error code, e.g. POR_STALE or POR_INSUFFICIENT_RESERVES
+  errorCode?: string;
+  // Reserve attestation timestamp the PoR check was judged on
+  attestationTimestamp?: string;
+  // ACE policy that rejected the mint (ACE_POLICY_REJECTED)
+  policyRejection?: { policy?: string; reason?: string };
   data?: Record<string, unknown>;
 }
 
 export function useMintRequest() {
   const { address } = useAccount();
+  const { ensureSession } = useWalletSession();
   const [isLoading, setIsLoading] = useState(false);
   const [result, setResult] = useState<MintRequestResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [jobStatus, setJobStatus] = useState<JobStatus | null>(null);
 
   const requestMint = async (
     amount: string,
@@ -30,8 +40,15 @@ export function useMintRequest() {
     setIsLoading(true);
     setError(null);
     setResult(null);
+    setJobStatus(null);
+
+    // One key per form submission: retries of this request are replayed, not re-run
+    const idempotencyKey = crypto.randomUUID();
 
     try {
+      // The proxy only forwards requests from a signed-in wallet
+      await ensureSession();
+
       const beneficiaryAddress = beneficiary || address;
 
       const payload = {
@@ -45,6 +62,7 @@ export function useMintRequest() {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          "Idempotency-Key": idempotencyKey,
         },
         body: JSON.stringify(payload),
       });
@@ -52,14 +70,44 @@ export function useMintRequest() {
       const data = await response.json();
 
       if (!response.ok) {
-        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        // The backend dry-runs ACE policies, so rejections can arrive before any job runs
+        if (data.error === "ACE_POLICY_REJECTED") {
+          setError(data.message);
+          setResult({
+            success: false,
+            error: data.message,
+            errorCode: data.error,
+            policyRejection: { policy: data.details?.policy, reason: data.details?.reason },
+          });
+          return data;
+        }
+        throw new Error(data.message || data.error || `HTTP error! status: ${response.status}`);
+      }
+
+      // Backend accepts the request (202) and runs the CRE workflow on a job queue
+      const job = await waitForJob(data.jobId, (update) => setJobStatus(update.status));
+
+      if (job.status === "failed" || !job.result?.success) {
+        const errorMessage = job.result?.message || job.result?.error || job.error || "CRE workflow failed";
+        setError(errorMessage);
+        setResult({
+          success: false,
+          transactionId: data.transactionId,
+          error: errorMessage,
+          errorCode: job.result?.error,
+          attestationTimestamp: job.result?.attestationTimestamp as string | undefined,
+          policyRejection: job.result?.errorDetails?.policy
+            ? { policy: job.result.errorDetails.policy, reason: job.result.errorDetails.reason }
+            : undefined,
+        });
+        return data;
       }
 
       setResult({
         success: true,
         transactionId: data.transactionId,
-        message: data.message || `Mint request submitted for ${amount} ${basket}`,
-        data: data.data,
+        message: job.result.message || data.message || `Mint request submitted for ${amount} ${basket}`,
+        data: job.result,
       });
 
       return data;
@@ -78,11 +126,13 @@ export function useMintRequest() {
   const reset = () => {
     setResult(null);
     setError(null);
+    setJobStatus(null);
   };
 
   return {
     requestMint,
     isLoading,
+    jobStatus,
     result,
     error,
     reset,
@@ -1,12 +1,37 @@
 "use client";
 
 import { useState, useCallback } from "react";
+import { useWalletSession } from "./useWalletSession";
+
+export interface ReserveSource {
+  url: string;
+  jsonPath?: string;
+  timestampPath?: string;
+  currency?: string;
+  maxStalenessSeconds?: number;
+  // Reserve attestations must be signed by this address
+  attester?: string;
+}
+
+// A reserve asset backing the basket and its target share of supply
+export interface BasketConstituent {
+  asset: string;
+  // Basis points; a basket's constituents sum to 10000
+  weightBps: number;
+  reserveSource: ReserveSource;
+}
 
 export interface PublishBasketRequest {
   name: string;
   symbol: string;
   stablecoinAddress: string;
   mintingConsumerAddress: string;
+  // ISO 4217 denomination; the backend defaults to USD
+  currency?: string;
+  reserveSource?: ReserveSource;
+  constituents?: BasketConstituent[];
+  // BasketFactory.createBasket tx, lets the backend check the BasketCreated event
+  creationTxHash?: string;
 }
 
 export interface PublishBasketResponse {
@@ -18,10 +43,14 @@ export interface PublishBasketResponse {
     symbol: string;
     stablecoinAddress: string;
     mintingConsumerAddress: string;
+    currency?: string;
+    reserveSource?: ReserveSource;
+    constituents?: BasketConstituent[];
   };
 }
 
 export function usePublishBasket() {
+  const { ensureSession } = useWalletSession();
   const [isPublishing, setIsPublishing] = useState(false);
   const [publishError, setPublishError] = useState<string | null>(null);
   const [isPublished, setIsPublished] = useState(false);
@@ -32,6 +61,9 @@ export function usePublishBasket() {
     setIsPublished(false);
 
     try {
+      // The backend only accepts baskets published by the stablecoin's owner
+      await ensureSession();
+
       console.log("[usePublishBasket] Publishing basket:", basket);
 
       const response = await fetch("/api/publish-basket", {
@@ -61,7 +93,7 @@ export function usePublishBasket() {
     } finally {
       setIsPublishing(false);
     }
-  }, []);
+  }, [ensureSession]);
 
   const reset = useCallback(() => {
     setIsPublishing(false);
@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount } from "wagmi";
+import { waitForJob, type JobStatus } from "@/lib/jobs";
+import { useWalletSession } from "./useWalletSession";
+
+export interface RedeemRequestResult {
+  success: boolean;
+  transactionId?: string;
+  message?: string;
+  error?: string;
+  data?: Record<string, unknown>;
+}
+
+export function useRedeemRequest() {
+  const { address } = useAccount();
+  const { ensureSession } = useWalletSession();
+  const [isLoading, setIsLoading] = useState(false);
+  const [result, setResult] = useState<RedeemRequestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [jobStatus, setJobStatus] = useState<JobStatus | null>(null);
+
+  const requestRedeem = async (
+    amount: string,
+    account: string,
+    basket: string = "DUSD"
+  ) => {
+    if (!address) {
+      setError("Wallet not connected");
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    setResult(null);
+    setJobStatus(null);
+
+    // One key per form submission: retries of this request are replayed, not re-run
+    const idempotencyKey = crypto.randomUUID();
+
+    try {
+      // The proxy only forwards requests from a signed-in wallet
+      await ensureSession();
+
+      const payload = {
+        account: account || address,
+        amount: amount,
+        basket: basket,
+      };
+
+      // Call the proxy API route (which forwards to real backend)
+      const response = await fetch("/api/redeem", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": idempotencyKey,
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || `HTTP error! status: ${response.status}`);
+      }
+
+      // Backend accepts the request (202) and runs the CRE workflow on a job queue
+      const job = await waitForJob(data.jobId, (update) => setJobStatus(update.status));
+
+      if (job.status === "failed" || !job.result?.success) {
+        throw new Error(job.result?.message || job.result?.error || job.error || "CRE workflow failed");
+      }
+
+      setResult({
+        success: true,
+        transactionId: data.transactionId,
+        message: job.result.message || data.message || `Redeem request submitted for ${amount} ${basket}`,
+        data: job.result,
+      });
+
+      return data;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to submit redeem request";
+      setError(errorMessage);
+      setResult({
+        success: false,
+        error: errorMessage,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const reset = () => {
+    setResult(null);
+    setError(null);
+    setJobStatus(null);
+  };
+
+  return {
+    requestRedeem,
+    isLoading,
+    jobStatus,
+    result,
+    error,
+    reset,
+  };
+}
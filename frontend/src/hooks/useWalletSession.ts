@@ -0,0 +1,82 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { useAccount, useSignMessage } from "wagmi";
+import { createSiweMessage } from "viem/siwe";
+
+// How long a signature is accepted before the wallet is asked to sign again
+const SESSION_DURATION_MS = 12 * 60 * 60 * 1000;
+
+interface SessionStatus {
+  signedIn: boolean;
+  address: string | null;
+  expiresAt: string | null;
+}
+
+/**
+ * Sign-In with Ethereum. ensureSession() reuses the current session when it
+ * belongs to the connected wallet, otherwise asks the wallet to sign a new one.
+ */
+export function useWalletSession() {
+  const { address, chainId } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const ensureSession = useCallback(async () => {
+    if (!address || !chainId) {
+      throw new Error("Wallet not connected");
+    }
+
+    const status: SessionStatus = await fetch("/api/auth/session", { cache: "no-store" }).then((r) => r.json());
+    if (status.signedIn && status.address?.toLowerCase() === address.toLowerCase()) {
+      return;
+    }
+
+    setIsSigningIn(true);
+    try {
+      const nonceResponse = await fetch("/api/auth/nonce", { cache: "no-store" });
+      const { nonce, message: nonceError } = await nonceResponse.json();
+      if (!nonceResponse.ok) {
+        throw new Error(nonceError || "Could not start wallet sign-in");
+      }
+      const now = new Date();
+
+      const message = createSiweMessage({
+        domain: window.location.host,
+        address,
+        statement: "Sign in to Basket Protocol to request mints and publish baskets.",
+        uri: window.location.origin,
+        version: "1",
+        chainId,
+        nonce,
+        issuedAt: now,
+        expirationTime: new Date(now.getTime() + SESSION_DURATION_MS),
+      });
+
+      const signature = await signMessageAsync({ message });
+
+      const response = await fetch("/api/auth/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message, signature }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Wallet sign-in failed");
+      }
+    } finally {
+      setIsSigningIn(false);
+    }
+  }, [address, chainId, signMessageAsync]);
+
+  const signOut = useCallback(async () => {
+    await fetch("/api/auth/session", { method: "DELETE" });
+  }, []);
+
+  return {
+    ensureSession,
+    signOut,
+    isSigningIn,
+  };
+}
@@ -0,0 +1,29 @@
+// Plain decimal only: no signs, exponents or separators
+const DECIMAL_AMOUNT = /^(\d+)(?:\.(\d+))?$/;
+
+/**
+ * Validates a token amount typed as a decimal string. Returns an error message,
+ * or null when the amount is valid. When decimals is known, amounts with more
+ * fractional digits than the token supports are rejected instead of rounded.
+ */
+export function validateAmount(amount: unknown, decimals?: number): string | null {
+  if (typeof amount !== "string" || !amount.trim()) {
+    return "Enter an amount";
+  }
+
+  const match = DECIMAL_AMOUNT.exec(amount.trim());
+  if (!match) {
+    return "Amount must be a plain decimal number, e.g. 1000 or 12.5";
+  }
+
+  const [, whole, fraction = ""] = match;
+  if (/^0*$/.test(whole) && /^0*$/.test(fraction)) {
+    return "Amount must be greater than zero";
+  }
+
+  if (decimals !== undefined && fraction.length > decimals) {
+    return `Amount supports at most ${decimals} decimal places`;
+  }
+
+  return null;
+}
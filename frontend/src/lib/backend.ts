@@ -0,0 +1,10 @@
+// NEXT_PUBLIC_MINT_API_URL points at the backend's /mint endpoint; the other routes sit beside it
+const BACKEND_BASE_URL = (process.env.NEXT_PUBLIC_MINT_API_URL ||
+  "http://ec2-3-27-63-126.ap-southeast-2.compute.amazonaws.com:3001/mint").replace(/\/mint\/?$/, "");
+
+/**
+ * Absolute URL of a backend route, e.g. backendUrl("/jobs/123").
+ */
+export function backendUrl(path: string): string {
+  return `${BACKEND_BASE_URL}${path}`;
+}
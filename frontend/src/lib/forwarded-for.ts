@@ -0,0 +1,16 @@
+import type { NextRequest } from "next/server";
+
+/**
+ * X-Forwarded-For for calls to the backend: the incoming chain with the address this
+ * proxy saw appended, so the backend (TRUST_PROXY covering only this hop) rate-limits
+ * the real caller. Without a known client address nothing is forwarded, since the
+ * browser-supplied header alone could name any address.
+ */
+export function forwardedFor(request: NextRequest): string | undefined {
+  if (!request.ip) {
+    return undefined;
+  }
+
+  const chain = request.headers.get("x-forwarded-for");
+  return chain ? `${chain}, ${request.ip}` : request.ip;
+}
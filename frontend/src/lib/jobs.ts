@@ -0,0 +1,62 @@
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface WorkflowJobResult {
+  success: boolean;
+  transactionId?: string;
+  mintTransaction?: string;
+  message?: string;
+  error?: string;
+  etherscanUrl?: string;
+  // Decoded revert for failed report writes, e.g. the ACE policy that rejected and why
+  errorDetails?: {
+    errorName?: string;
+    policy?: string;
+    reason?: string;
+  };
+  confirmed?: boolean;
+  [key: string]: unknown;
+}
+
+export interface WorkflowJob {
+  id: string;
+  type: string;
+  status: JobStatus;
+  transactionId?: string;
+  result?: WorkflowJobResult;
+  error?: string;
+  queuePosition?: number;
+}
+
+const POLL_INTERVAL_MS = 3000;
+const POLL_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Polls /api/jobs/:jobId until the backend job finishes.
+ * Calls onUpdate with every intermediate status so the UI can show progress.
+ */
+export async function waitForJob(
+  jobId: string,
+  onUpdate?: (job: WorkflowJob) => void
+): Promise<WorkflowJob> {
+  const deadline = Date.now() + POLL_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    const response = await fetch(`/api/jobs/${jobId}`, { cache: "no-store" });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || `HTTP error! status: ${response.status}`);
+    }
+
+    const job = data.job as WorkflowJob;
+    onUpdate?.(job);
+
+    if (job.status === "completed" || job.status === "failed") {
+      return job;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  throw new Error("Timed out waiting for the CRE workflow to finish");
+}
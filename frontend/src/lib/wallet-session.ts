@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseSiweMessage } from "viem/siwe";
+
+// httpOnly cookies: the browser never sees the nonce or the signed session
+export const NONCE_COOKIE = "bskt_siwe_nonce";
+export const SESSION_COOKIE = "bskt_wallet_session";
+
+export interface WalletSession {
+  message: string;
+  signature: string;
+  address: string;
+  expiresAt: string;
+}
+
+/**
+ * Reads the signed-in wallet from the session cookie set by /api/auth/verify.
+ * Returns null when there is no session or it has expired.
+ */
+export function readWalletSession(request: NextRequest): WalletSession | null {
+  const cookie = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!cookie) return null;
+
+  try {
+    const { message, signature } = JSON.parse(Buffer.from(cookie, "base64url").toString("utf-8"));
+    const parsed = parseSiweMessage(message);
+    if (!parsed.address || !parsed.expirationTime || parsed.expirationTime.getTime() <= Date.now()) {
+      return null;
+    }
+    return { message, signature, address: parsed.address, expiresAt: parsed.expirationTime.toISOString() };
+  } catch {
+    return null;
+  }
+}
+
+export function encodeWalletSession(message: string, signature: string): string {
+  return Buffer.from(JSON.stringify({ message, signature })).toString("base64url");
+}
+
+/**
+ * Headers that let the backend re-verify the wallet behind a proxied request
+ */
+export function walletHeaders(session: WalletSession): Record<string, string> {
+  return {
+    "x-wallet-message": Buffer.from(session.message).toString("base64"),
+    "x-wallet-signature": session.signature,
+  };
+}
+
+export function notSignedIn() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: "NOT_SIGNED_IN",
+      message: "Sign in with your wallet first",
+    },
+    { status: 401 }
+  );
+}